@@ -0,0 +1,20 @@
+// Achievement ids by username, as the players' clients report them. Only used to show badges
+// in the lobby, so the server takes them on trust and just keeps the list small.
+
+const MAX_ACHIEVEMENTS = 20;
+const MAX_ID_LENGTH = 40;
+
+export class AchievementStore {
+  private achievements = new Map<string, string[]>();
+
+  get(username: string) {
+    return this.achievements.get(username) ?? [];
+  }
+
+  set(username: string, achievements: unknown) {
+    const ids = Array.isArray(achievements)
+      ? achievements.filter((id): id is string => typeof id === "string" && id.length <= MAX_ID_LENGTH)
+      : [];
+    this.achievements.set(username, [...new Set(ids)].slice(0, MAX_ACHIEVEMENTS));
+  }
+}
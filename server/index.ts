@@ -0,0 +1,336 @@
+import { createServer } from "node:http";
+import { Server, Socket } from "socket.io";
+import type { ZodType, ZodTypeDef } from "zod";
+import { clockDeadline, IllegalMoveError } from "../src/engine";
+import { ClientToServerEvents, PROTOCOL_VERSION, ServerToClientEvents } from "../src/protocol";
+import { describeIssues, moveSchema, proposalKindSchema, sendMessageSchema } from "../src/protocol/schemas";
+import { RoomError, RoomStore, ServerRoom } from "./rooms";
+import { PlayerSession, SessionStore } from "./sessions";
+import { RatingStore } from "./ratings";
+import { AchievementStore } from "./achievements";
+
+type GameServer = Server<ClientToServerEvents, ServerToClientEvents>;
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+// Local development server implementing the protocol spoken by src/services/socketService.ts.
+// Run with `npm run server`; the client tries it first when started with `npm run dev`.
+
+const PORT = Number(process.env.PORT) || 3001;
+// How long a dropped player keeps their seat before the room moves on without them
+const RESUME_GRACE_MS = Number(process.env.RESUME_GRACE_MS) || 30_000;
+// How long a leaderboard season runs before ratings start over
+const SEASON_LENGTH_MS = Number(process.env.SEASON_LENGTH_MS) || 30 * 24 * 60 * 60 * 1000;
+
+const httpServer = createServer((req, res) => {
+  if (req.url === "/health") {
+    res.writeHead(200, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+    res.end(JSON.stringify({ ok: true }));
+    return;
+  }
+  res.writeHead(404);
+  res.end();
+});
+
+const io: GameServer = new Server(httpServer, {
+  cors: { origin: "*" },
+});
+
+// Clients built against another version of src/protocol would misread our events
+io.use((socket, next) => {
+  const version = Number(socket.handshake.query.protocolVersion);
+  if (version !== PROTOCOL_VERSION) {
+    next(new Error(`Unsupported protocol version ${version || "(none)"}, expected ${PROTOCOL_VERSION}`));
+    return;
+  }
+  next();
+});
+
+const ratings = new RatingStore(SEASON_LENGTH_MS);
+const achievements = new AchievementStore();
+const rooms = new RoomStore(ratings, achievements);
+const sessions = new SessionStore();
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const broadcastRoomList = () => {
+  io.emit("room_list", rooms.list());
+};
+
+// Timed rooms wake up when the side to move would run out of time, even if nobody moves
+const clockTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const watchClock = (roomId: string) => {
+  clearTimeout(clockTimers.get(roomId));
+  clockTimers.delete(roomId);
+
+  const room = rooms.get(roomId);
+  const deadline = room ? clockDeadline(room.state) : null;
+  if (deadline === null) return;
+
+  clockTimers.set(
+    roomId,
+    setTimeout(() => {
+      if (!rooms.flagIfOutOfTime(roomId)) {
+        // Woke up a little early
+        watchClock(roomId);
+        return;
+      }
+      broadcastGameState(roomId);
+      if (rooms.get(roomId)?.rated) broadcastRoomList();
+    }, deadline - Date.now()),
+  );
+};
+
+// Every change to a room's game goes out through here, so its clock is watched from here too
+const broadcastGameState = (roomId: string) => {
+  const room = rooms.get(roomId);
+  if (room) io.to(roomId).emit("game_state", rooms.publicState(room));
+  watchClock(roomId);
+};
+
+// Spectators also follow a second socket.io room, which carries their own chat
+const spectatorChannel = (roomId: string) => `${roomId}/spectators`;
+
+const enterRoom = (socket: GameSocket, session: PlayerSession, roomId: string) => {
+  socket.join(roomId);
+  session.roomId = roomId;
+  socket.to(roomId).emit("player_joined", session.username);
+};
+
+const leaveCurrentRoom = (session: PlayerSession) => {
+  const { roomId } = session;
+  if (!roomId) return;
+
+  const { spectating } = session;
+  session.roomId = null;
+  session.spectating = false;
+  const socket = session.socketId ? io.sockets.sockets.get(session.socketId) : undefined;
+  socket?.leave(roomId);
+
+  if (spectating) {
+    socket?.leave(spectatorChannel(roomId));
+    if (rooms.unwatch(roomId, session.username)) broadcastGameState(roomId);
+  } else {
+    // A forfeited rated game goes out before leave() resets the board
+    if (rooms.forfeit(roomId, session.username)) broadcastGameState(roomId);
+    if (rooms.leave(roomId, session.username)) {
+      io.to(roomId).emit("player_left", session.username);
+      broadcastGameState(roomId);
+    }
+  }
+  broadcastRoomList();
+};
+
+io.on("connection", (socket) => {
+  const username = String(socket.handshake.query.username || "Anonymous");
+  const { sessionToken } = socket.handshake.query;
+  const { session, resumed, previousSocketId } = sessions.connect(sessionToken, username, socket.id);
+  console.log(`${username} ${resumed ? "reconnected" : "connected"} (${socket.id})`);
+
+  // A resumed session may still have its old connection open; this one replaces it
+  if (previousSocketId) io.sockets.sockets.get(previousSocketId)?.disconnect(true);
+  socket.emit("session", { token: session.token });
+
+  socket.on("resume_session", (ack) => {
+    if (!resumed) {
+      ack?.(sessionToken ? { success: false, error: "Your session has expired" } : { success: true });
+      return;
+    }
+
+    const room = session.roomId ? rooms.get(session.roomId) : undefined;
+    if (!room) {
+      session.roomId = null;
+      ack?.({ success: true });
+      return;
+    }
+
+    socket.join(room.id);
+    if (session.spectating) socket.join(spectatorChannel(room.id));
+    ack?.({
+      success: true,
+      roomId: room.id,
+      state: rooms.publicState(room),
+      messages: rooms.messagesFor(room, session.spectating),
+    });
+  });
+
+  socket.on("get_rooms", (ack) => {
+    ack?.(rooms.list());
+  });
+
+  socket.on("get_leaderboard", (query, ack) => {
+    // Anything but an object gets the defaults, like any field left out
+    ack?.(ratings.leaderboard(typeof query === "object" && query !== null ? query : {}));
+  });
+
+  socket.on("set_achievements", (ids) => {
+    achievements.set(username, ids);
+    // Only worth telling the lobby about when the player is seated somewhere
+    if (session.roomId) broadcastRoomList();
+  });
+
+  socket.on("create_room", (options, ack) => {
+    try {
+      leaveCurrentRoom(session);
+      const room = rooms.create(username, options);
+      enterRoom(socket, session, room.id);
+      ack?.({ success: true, roomId: room.id });
+      broadcastGameState(room.id);
+      broadcastRoomList();
+    } catch (error) {
+      ack?.({ success: false, error: errorMessage(error) });
+    }
+  });
+
+  socket.on("join_room", (roomId, ack) => {
+    try {
+      // Opening a room's link after a reload asks for the room the session already resumed
+      const rejoining = session.roomId === roomId;
+      // A spectator's link asks to keep watching, not for a seat
+      if (rejoining && session.spectating) {
+        ack?.({ success: true, roomId });
+        return;
+      }
+      if (!rejoining) leaveCurrentRoom(session);
+      const room = rooms.join(roomId, username);
+      if (rejoining) {
+        socket.join(room.id);
+      } else {
+        enterRoom(socket, session, room.id);
+      }
+      ack?.({ success: true, roomId: room.id });
+      broadcastGameState(room.id);
+      if (!rejoining) room.messages.forEach((message) => socket.emit("new_message", message));
+      broadcastRoomList();
+    } catch (error) {
+      ack?.({ success: false, error: errorMessage(error) });
+    }
+  });
+
+  socket.on("watch_room", (roomId, ack) => {
+    try {
+      // Checked before leaving, which would otherwise give up the seat on the way
+      if (session.roomId === roomId && !session.spectating) throw new RoomError("You are playing in this room");
+      leaveCurrentRoom(session);
+      const room = rooms.watch(roomId, username);
+      socket.join([room.id, spectatorChannel(room.id)]);
+      session.roomId = room.id;
+      session.spectating = true;
+      ack?.({ success: true, roomId: room.id });
+      broadcastGameState(room.id);
+      rooms.messagesFor(room, true).forEach((message) => socket.emit("new_message", message));
+      broadcastRoomList();
+    } catch (error) {
+      ack?.({ success: false, error: errorMessage(error) });
+    }
+  });
+
+  socket.on("join_random", (ack) => {
+    try {
+      leaveCurrentRoom(session);
+      const open = rooms.findOpenRoom();
+      const room = open ? rooms.join(open.id, username) : rooms.create(username, { roomName: "Quick Game", isPrivate: false });
+      enterRoom(socket, session, room.id);
+      ack?.({ success: true, roomId: room.id });
+      broadcastGameState(room.id);
+      broadcastRoomList();
+    } catch (error) {
+      ack?.({ success: false, error: errorMessage(error) });
+    }
+  });
+
+  // Payloads are whatever the client chose to send, so they are checked before anything uses them
+  const parsePayload = <T>(action: string, schema: ZodType<T, ZodTypeDef, unknown>, payload: unknown) => {
+    const parsed = schema.safeParse(payload);
+    if (parsed.success) return parsed.data;
+    console.warn(`Rejected ${action} from ${username}: ${describeIssues(parsed.error).join("; ")}`);
+    return undefined;
+  };
+
+  // Puts the sender back in sync with the authoritative state after refusing what they sent
+  const resync = () => {
+    const room = session.roomId ? rooms.get(session.roomId) : undefined;
+    if (room) socket.emit("game_state", rooms.publicState(room));
+  };
+
+  // Moves, resignations, offers and restarts all change the game; a refused one only puts
+  // the sender back in sync
+  const updateGame = (action: string, update: (roomId: string) => ServerRoom) => {
+    const { roomId } = session;
+    if (!roomId) return;
+
+    try {
+      const room = update(roomId);
+      broadcastGameState(roomId);
+      // Rated results change the ratings shown in the lobby
+      if (room.state.gameOver && room.rated) broadcastRoomList();
+    } catch (error) {
+      if (!(error instanceof IllegalMoveError || error instanceof RoomError)) throw error;
+      console.warn(`Rejected ${action} from ${username}: ${error.message}`);
+      resync();
+    }
+  };
+
+  socket.on("move", (payload) => {
+    const move = parsePayload("move", moveSchema, payload);
+    if (move === undefined) {
+      resync();
+      return;
+    }
+    updateGame("move", (roomId) => rooms.move(roomId, username, move));
+  });
+
+  socket.on("resign", () => {
+    updateGame("resignation", (roomId) => rooms.resign(roomId, username));
+  });
+
+  socket.on("propose", (payload) => {
+    const kind = parsePayload("offer", proposalKindSchema, payload);
+    if (kind === undefined) {
+      resync();
+      return;
+    }
+    updateGame(`${kind} offer`, (roomId) => rooms.propose(roomId, username, kind));
+  });
+
+  socket.on("answer_proposal", (accept) => {
+    updateGame("answer", (roomId) => rooms.answerProposal(roomId, username, Boolean(accept)));
+  });
+
+  socket.on("restart_game", () => {
+    if (session.spectating) return;
+    updateGame("restart", (roomId) => rooms.restart(roomId));
+  });
+
+  socket.on("send_message", (payload) => {
+    const { roomId } = session;
+    const text = parsePayload("message", sendMessageSchema, payload)?.text.trim();
+    if (!roomId || !text) return;
+
+    // The sender is always the connection's own username, whatever the payload claims.
+    // Spectators only talk among themselves, so they cannot coach the players.
+    const message = rooms.addMessage(roomId, username, text, session.spectating);
+    io.to(session.spectating ? spectatorChannel(roomId) : roomId).emit("new_message", message);
+  });
+
+  socket.on("leave_room", () => {
+    leaveCurrentRoom(session);
+  });
+
+  socket.on("disconnect", (reason) => {
+    console.log(`${username} disconnected (${reason})`);
+
+    // Logging out frees the seat at once; a dropped connection may still come back
+    if (reason === "client namespace disconnect") {
+      if (session.socketId !== socket.id) return;
+      leaveCurrentRoom(session);
+      sessions.end(session);
+      return;
+    }
+    sessions.release(session, socket.id, RESUME_GRACE_MS, () => leaveCurrentRoom(session));
+  });
+});
+
+httpServer.listen(PORT, () => {
+  console.log(`Tic-Tac-Toe dev server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,103 @@
+import { DEFAULT_RATING, ratingChanges } from "../src/rating";
+import type { GameMode, Mark } from "../src/engine";
+import type { LeaderboardEntry, LeaderboardPage, LeaderboardQuery, SeasonInfo } from "../src/protocol";
+
+type Standing = Omit<LeaderboardEntry, "rank" | "username">;
+
+interface Season extends SeasonInfo {
+  // Classic and Ultimate are separate ladders
+  standings: Record<GameMode, Map<string, Standing>>;
+}
+
+// Nobody needs more in one go, and it keeps a careless client from asking for everything
+const MAX_PAGE_SIZE = 100;
+
+const newSeason = (number: number, startedAt: number): Season => ({
+  number,
+  startedAt,
+  endedAt: null,
+  standings: { classic: new Map(), ultimate: new Map() },
+});
+
+const newStanding = (): Standing => ({ rating: DEFAULT_RATING, wins: 0, losses: 0, draws: 0, streak: 0, bestStreak: 0 });
+
+const bySort: Record<LeaderboardQuery["sort"], (a: Standing, b: Standing) => number> = {
+  rating: (a, b) => b.rating - a.rating,
+  wins: (a, b) => b.wins - a.wins || b.rating - a.rating,
+  streak: (a, b) => b.streak - a.streak || b.rating - a.rating,
+};
+
+const infoOf = ({ number, startedAt, endedAt }: Season): SeasonInfo => ({ number, startedAt, endedAt });
+
+// Ratings and results by username and game mode. Like everything else on the dev server they
+// only live in memory, and anyone can play under any name, so they are a convenience rather
+// than a ranking. A season ends once it has run for seasonLength; the next one starts everyone
+// over, and the finished one is kept as it stood.
+export class RatingStore {
+  private season = newSeason(1, Date.now());
+  // Finished seasons, newest first
+  private archive: Season[] = [];
+
+  constructor(private seasonLength: number) {}
+
+  get(username: string, mode: GameMode) {
+    this.rollOver();
+    return this.season.standings[mode].get(username)?.rating ?? DEFAULT_RATING;
+  }
+
+  // Applies a finished game and returns how far it moved each side
+  record(players: Record<Mark, string>, winner: Mark | null, mode: GameMode) {
+    this.rollOver();
+    const ladder = this.season.standings[mode];
+    const standings = { X: ladder.get(players.X) ?? newStanding(), O: ladder.get(players.O) ?? newStanding() };
+    const changes = ratingChanges({ X: standings.X.rating, O: standings.O.rating }, winner);
+
+    (["X", "O"] as Mark[]).forEach((mark) => {
+      const standing = standings[mark];
+      standing.rating += changes[mark];
+      if (winner === null) {
+        standing.draws++;
+        standing.streak = 0;
+      } else if (winner === mark) {
+        standing.wins++;
+        standing.streak++;
+        standing.bestStreak = Math.max(standing.bestStreak, standing.streak);
+      } else {
+        standing.losses++;
+        standing.streak = 0;
+      }
+      ladder.set(players[mark], standing);
+    });
+    return changes;
+  }
+
+  leaderboard({ mode, sort = "rating", season, page = 1, pageSize = MAX_PAGE_SIZE }: Partial<LeaderboardQuery> = {}): LeaderboardPage {
+    this.rollOver();
+    const seasons = [this.season, ...this.archive];
+    const selected = seasons.find((candidate) => candidate.number === season) ?? this.season;
+    // Queries come straight from clients, so anything unexpected gets the defaults
+    const ladder = selected.standings[mode === "ultimate" ? "ultimate" : "classic"];
+    const compare = bySort[sort] ?? bySort.rating;
+    const sorted = [...ladder.entries()].sort(([nameA, a], [nameB, b]) => compare(a, b) || nameA.localeCompare(nameB));
+    const size = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(pageSize) || 1));
+    const start = (Math.max(1, Math.floor(page) || 1) - 1) * size;
+
+    return {
+      season: infoOf(selected),
+      seasons: seasons.map(infoOf),
+      entries: sorted
+        .slice(start, start + size)
+        .map(([username, standing], index) => ({ rank: start + index + 1, username, ...standing })),
+      total: sorted.length,
+    };
+  }
+
+  // Checked whenever the ratings are used rather than on a timer
+  private rollOver(now = Date.now()) {
+    if (now - this.season.startedAt < this.seasonLength) return;
+
+    this.season.endedAt = now;
+    this.archive.unshift(this.season);
+    this.season = newSeason(this.season.number + 1, now);
+  }
+}
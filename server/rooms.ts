@@ -0,0 +1,349 @@
+import { randomUUID } from "node:crypto";
+import {
+  AnyGameState,
+  answerProposal,
+  BoardConfig,
+  boardConfigOf,
+  createClock,
+  createSeries,
+  createState,
+  DEFAULT_BOARD_CONFIG,
+  GameMode,
+  isUltimateState,
+  isValidBoardConfig,
+  isValidSeriesLength,
+  isValidTimeControl,
+  Mark,
+  Move,
+  nextGame,
+  nextSeries,
+  playMove,
+  pressClock,
+  propose,
+  ProposalKind,
+  resign,
+  restartState,
+  runClock,
+  startClock,
+  TimeControl,
+} from "../src/engine";
+import type { CreateRoomPayload, Message, Room } from "../src/protocol";
+import { RatingStore } from "./ratings";
+import { AchievementStore } from "./achievements";
+
+export interface ServerRoom {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+  state: AnyGameState;
+  // The states before each move of the current game, for takebacks
+  history: AnyGameState[];
+  messages: Message[];
+  // Usernames watching without a seat
+  spectators: string[];
+  rated: boolean;
+  timeControl: TimeControl | null;
+  // How the last rated game moved each rating, until the next one starts
+  ratingChange: Record<Mark, number> | null;
+}
+
+export class RoomError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoomError";
+  }
+}
+
+const MAX_MESSAGES = 100;
+
+// Each mode has its own ratings
+const modeOf = (room: ServerRoom): GameMode => (isUltimateState(room.state) ? "ultimate" : "classic");
+
+// Keeps every room in memory. The dev server never persists anything: restarting it starts over.
+export class RoomStore {
+  private rooms = new Map<string, ServerRoom>();
+
+  constructor(private ratings: RatingStore, private achievements: AchievementStore) {}
+
+  create(
+    username: string,
+    { roomName, isPrivate, mode = "classic", boardSize, winLength, rated = false, timeControl, bestOf = 1 }: CreateRoomPayload,
+  ) {
+    const config: BoardConfig = {
+      boardSize: boardSize ?? DEFAULT_BOARD_CONFIG.boardSize,
+      winLength: winLength ?? DEFAULT_BOARD_CONFIG.winLength,
+    };
+    if (mode === "classic" && !isValidBoardConfig(config)) {
+      throw new RoomError("Unsupported board size");
+    }
+    if (timeControl && !isValidTimeControl(timeControl)) {
+      throw new RoomError("Unsupported time control");
+    }
+    if (!isValidSeriesLength(bestOf)) {
+      throw new RoomError("Unsupported series length");
+    }
+
+    const room: ServerRoom = {
+      id: randomUUID().slice(0, 8),
+      name: roomName.trim() || "Untitled Room",
+      isPrivate,
+      state: { ...createState(mode, { X: username, O: null }, config), series: createSeries(bestOf) },
+      history: [],
+      messages: [],
+      spectators: [],
+      rated,
+      timeControl: timeControl
+        ? { initial: timeControl.initial, increment: timeControl.increment, perMove: Boolean(timeControl.perMove) }
+        : null,
+      ratingChange: null,
+    };
+    room.state = this.withClock(room, room.state);
+
+    this.rooms.set(room.id, room);
+    return room;
+  }
+
+  get(roomId: string) {
+    return this.rooms.get(roomId);
+  }
+
+  join(roomId: string, username: string) {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new RoomError("Room not found");
+
+    const { players } = room.state;
+    if (players.X === username || players.O === username) return room;
+    if (players.X && players.O) throw new RoomError("Room is full");
+
+    const seat: Mark = players.X ? "O" : "X";
+    room.state = startClock({ ...room.state, players: { ...players, [seat]: username } }, Date.now());
+    return room;
+  }
+
+  watch(roomId: string, username: string) {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new RoomError("Room not found");
+    if (this.markOf(room, username)) throw new RoomError("You are playing in this room");
+
+    if (!room.spectators.includes(username)) room.spectators = [...room.spectators, username];
+    return room;
+  }
+
+  // Returns false once the room is empty and has been removed
+  unwatch(roomId: string, username: string) {
+    const room = this.rooms.get(roomId);
+    if (!room) return false;
+
+    room.spectators = room.spectators.filter((spectator) => spectator !== username);
+    return this.removeIfEmpty(room);
+  }
+
+  // First public room waiting for an opponent, if any
+  findOpenRoom() {
+    for (const room of this.rooms.values()) {
+      const { players } = room.state;
+      if (!room.isPrivate && (!players.X || !players.O)) return room;
+    }
+    return undefined;
+  }
+
+  // Leaving a rated game before it ends loses it, so walking away (or dropping out) does not
+  // dodge the rating change. True when that ended the game.
+  forfeit(roomId: string, username: string) {
+    const room = this.rooms.get(roomId);
+    const mark = room ? this.markOf(room, username) : null;
+    if (!room || !mark || !room.rated || room.state.gameOver) return false;
+    if (!room.state.players.X || !room.state.players.O) return false;
+
+    // Their time may have run out already
+    if (this.chargeClock(room)) return true;
+    room.state = resign(room.state, mark);
+    this.rate(room);
+    return true;
+  }
+
+  // Frees the player's seat and starts a fresh game for whoever joins next.
+  // Returns false once the room is empty (spectators included) and has been removed.
+  leave(roomId: string, username: string) {
+    const room = this.rooms.get(roomId);
+    if (!room) return false;
+    this.forfeit(roomId, username);
+
+    const players = {
+      X: room.state.players.X === username ? null : room.state.players.X,
+      O: room.state.players.O === username ? null : room.state.players.O,
+    };
+
+    // A new opponent starts a new series
+    const { series } = room.state;
+    room.state = this.withClock(room, { ...restartState(room.state), players, ...(series ? { series: nextSeries(series) } : {}) });
+    room.history = [];
+    room.ratingChange = null;
+    return this.removeIfEmpty(room);
+  }
+
+  // A move that comes in after its sender's time ran out is not played
+  move(roomId: string, username: string, move: Move) {
+    const { room, mark } = this.seatOf(roomId, username);
+    if (this.chargeClock(room)) return room;
+
+    const previous = room.state;
+    room.state = pressClock(playMove(previous, move, mark), mark, Date.now());
+    room.history = [...room.history, previous];
+    if (room.state.gameOver) this.rate(room);
+    return room;
+  }
+
+  resign(roomId: string, username: string) {
+    const { room, mark } = this.seatOf(roomId, username);
+    if (this.chargeClock(room)) return room;
+
+    room.state = resign(room.state, mark);
+    this.rate(room);
+    return room;
+  }
+
+  propose(roomId: string, username: string, kind: ProposalKind) {
+    const { room, mark } = this.seatOf(roomId, username);
+    if (this.chargeClock(room)) return room;
+
+    room.state = propose(room.state, kind, mark, room.history);
+    return room;
+  }
+
+  answerProposal(roomId: string, username: string, accept: boolean) {
+    const { room, mark } = this.seatOf(roomId, username);
+    if (this.chargeClock(room)) return room;
+
+    const answered = answerProposal(room.state, mark, accept, room.history);
+    room.state = answered.state;
+    room.history = answered.history;
+    if (room.state.gameOver) this.rate(room);
+    return room;
+  }
+
+  restart(roomId: string) {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new RoomError("Room not found");
+    // Otherwise either player could wipe a game in progress
+    if (!room.state.gameOver) throw new RoomError("The game is not over yet");
+
+    room.state = startClock(this.withClock(room, nextGame(room.state)), Date.now());
+    room.history = [];
+    room.ratingChange = null;
+    return room;
+  }
+
+  // For a timer set to the side to move's deadline. True when their time ran out.
+  flagIfOutOfTime(roomId: string) {
+    const room = this.rooms.get(roomId);
+    return room ? this.chargeClock(room) : false;
+  }
+
+  addMessage(roomId: string, sender: string, text: string, fromSpectator = false) {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new RoomError("Room not found");
+
+    const message: Message = { id: randomUUID(), sender, text, timestamp: Date.now() };
+    if (fromSpectator) message.channel = "spectators";
+    room.messages = [...room.messages, message].slice(-MAX_MESSAGES);
+    return message;
+  }
+
+  // The chat as one side of the room sees it: spectators read the players, not the other way round
+  messagesFor(room: ServerRoom, spectating: boolean) {
+    return spectating ? room.messages : room.messages.filter((message) => message.channel !== "spectators");
+  }
+
+  list(): Room[] {
+    return [...this.rooms.values()].map((room) => this.summarize(room));
+  }
+
+  summarize(room: ServerRoom): Room {
+    const { state } = room;
+    const players = [state.players.X, state.players.O].filter((player): player is string => Boolean(player));
+
+    return {
+      id: room.id,
+      name: room.name,
+      players,
+      spectators: room.spectators.length,
+      isPrivate: room.isPrivate,
+      mode: modeOf(room),
+      ...(isUltimateState(state) ? {} : boardConfigOf(state)),
+      rated: room.rated,
+      ...(room.timeControl ? { timeControl: room.timeControl } : {}),
+      ...(state.series && state.series.bestOf > 1 ? { bestOf: state.series.bestOf } : {}),
+      ratings: Object.fromEntries(players.map((player) => [player, this.ratings.get(player, modeOf(room))])),
+      achievements: Object.fromEntries(players.map((player) => [player, this.achievements.get(player)])),
+    };
+  }
+
+  // The state as the room sees it, with its spectators and ratings attached, and the time it was
+  // sent for clients to set their clocks by
+  publicState(room: ServerRoom): AnyGameState {
+    const { players, clock } = room.state;
+    const state = {
+      ...room.state,
+      spectators: room.spectators,
+      ...(clock ? { clock: { ...clock, serverTime: Date.now() } } : {}),
+    };
+    if (!room.rated) return state;
+
+    return {
+      ...state,
+      rated: true,
+      ratings: {
+        X: players.X ? this.ratings.get(players.X, modeOf(room)) : null,
+        O: players.O ? this.ratings.get(players.O, modeOf(room)) : null,
+      },
+      ratingChange: room.ratingChange,
+    };
+  }
+
+  private rate(room: ServerRoom) {
+    const { X, O } = room.state.players;
+    if (!room.rated || !X || !O) return;
+
+    const { winner } = room.state;
+    room.ratingChange = this.ratings.record({ X, O }, winner === null ? null : winner === X ? "X" : "O", modeOf(room));
+  }
+
+  // Brings the side to move's clock up to date. True when it ran out, which has ended the game.
+  private chargeClock(room: ServerRoom) {
+    if (room.state.gameOver) return false;
+    room.state = runClock(room.state, Date.now());
+    if (!room.state.gameOver) return false;
+
+    this.rate(room);
+    return true;
+  }
+
+  // Timed rooms start every game with full clocks
+  private withClock(room: ServerRoom, state: AnyGameState): AnyGameState {
+    return room.timeControl ? { ...state, clock: createClock(room.timeControl) } : state;
+  }
+
+  private removeIfEmpty(room: ServerRoom) {
+    const { players } = room.state;
+    if (players.X || players.O || room.spectators.length > 0) return true;
+
+    this.rooms.delete(room.id);
+    return false;
+  }
+
+  private seatOf(roomId: string, username: string) {
+    const room = this.rooms.get(roomId);
+    if (!room) throw new RoomError("Room not found");
+
+    const mark = this.markOf(room, username);
+    if (!mark) throw new RoomError("You are not playing in this room");
+    return { room, mark };
+  }
+
+  private markOf(room: ServerRoom, username: string): Mark | null {
+    if (room.state.players.X === username) return "X";
+    if (room.state.players.O === username) return "O";
+    return null;
+  }
+}
@@ -0,0 +1,54 @@
+import { randomUUID } from "node:crypto";
+
+export interface PlayerSession {
+  token: string;
+  username: string;
+  roomId: string | null;
+  // Watching the game in roomId rather than playing it
+  spectating: boolean;
+  // The socket currently speaking for this session, null while the player is away
+  socketId: string | null;
+  expiry: ReturnType<typeof setTimeout> | null;
+}
+
+// Tracks players across sockets, so a dropped connection does not cost them their seat.
+// Like the rooms, sessions only live in memory.
+export class SessionStore {
+  private sessions = new Map<string, PlayerSession>();
+
+  // Picks the session named by the token back up when it belongs to the same user; anything
+  // else starts a new one. `resumed` tells the two apart.
+  connect(token: unknown, username: string, socketId: string) {
+    const existing = typeof token === "string" ? this.sessions.get(token) : undefined;
+
+    if (existing && existing.username === username) {
+      if (existing.expiry) clearTimeout(existing.expiry);
+      const previousSocketId = existing.socketId;
+      existing.expiry = null;
+      existing.socketId = socketId;
+      return { session: existing, resumed: true, previousSocketId };
+    }
+
+    const session: PlayerSession = { token: randomUUID(), username, roomId: null, spectating: false, socketId, expiry: null };
+    this.sessions.set(session.token, session);
+    return { session, resumed: false, previousSocketId: null };
+  }
+
+  // Marks the player as away and ends the session unless they reconnect within `graceMs`.
+  // Ignored when another socket has already taken the session over.
+  release(session: PlayerSession, socketId: string, graceMs: number, onExpire: () => void) {
+    if (session.socketId !== socketId) return;
+
+    session.socketId = null;
+    session.expiry = setTimeout(() => {
+      this.end(session);
+      onExpire();
+    }, graceMs);
+  }
+
+  end(session: PlayerSession) {
+    if (session.expiry) clearTimeout(session.expiry);
+    session.expiry = null;
+    this.sessions.delete(session.token);
+  }
+}
@@ -6,6 +6,11 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { GameProvider } from "@/context/GameContext";
 import Index from "./pages/Index";
+import History from "./pages/History";
+import Replay from "./pages/Replay";
+import Stats from "./pages/Stats";
+import Leaderboard from "./pages/Leaderboard";
+import Profile from "./pages/Profile";
 import NotFound from "./pages/NotFound";
 import { useState } from "react";
 
@@ -22,6 +27,13 @@ const App = () => {
           <BrowserRouter>
             <Routes>
               <Route path="/" element={<Index />} />
+              <Route path="/room/:roomId" element={<Index />} />
+              <Route path="/history" element={<History />} />
+              <Route path="/replay/:matchId" element={<Replay />} />
+              <Route path="/replay" element={<Replay />} />
+              <Route path="/stats" element={<Stats />} />
+              <Route path="/leaderboard" element={<Leaderboard />} />
+              <Route path="/profile" element={<Profile />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -0,0 +1,91 @@
+import type { Move } from "@/engine";
+import type { MatchRecord } from "@/services/matchHistory";
+
+// Badges earned by finished games, judged from the local match history
+
+export type AchievementId =
+  | "first-win"
+  | "no-center-win"
+  | "three-move-win"
+  | "win-streak-10"
+  | "beat-hard-bot"
+  | "first-ultimate-win";
+
+export interface Achievement {
+  id: AchievementId;
+  name: string;
+  description: string;
+  // The finished game, and every recorded game including it, newest first
+  earned: (match: MatchRecord, history: MatchRecord[]) => boolean;
+}
+
+const STREAK_LENGTH = 10;
+
+const won = (match: MatchRecord) => match.result === "win";
+
+// Won by completing a line, not because the opponent resigned or ran out of time
+const wonOnBoard = (match: MatchRecord) => won(match) && !match.endReason;
+
+const ownMoves = (match: MatchRecord) => match.moves.filter(({ mark }) => mark === match.mark).map(({ move }) => move);
+
+// The middle square of the whole grid, if it has one: even-sized boards do not
+const isCenter = (match: MatchRecord, move: Move) => {
+  if (typeof move !== "number") return move.board === 4 && move.cell === 4;
+  const size = match.boardSize ?? 3;
+  return size % 2 === 1 && move === (size * size - 1) / 2;
+};
+
+const hasCenter = (match: MatchRecord) => match.mode === "ultimate" || (match.boardSize ?? 3) % 2 === 1;
+
+// Games won in a row, up to and including the newest
+const currentStreak = (history: MatchRecord[]) => {
+  const index = history.findIndex((match) => !won(match));
+  return index === -1 ? history.length : index;
+};
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: "first-win",
+    name: "First win",
+    description: "Win a game",
+    earned: won,
+  },
+  {
+    id: "no-center-win",
+    name: "Off centre",
+    description: "Win without ever taking the centre square",
+    earned: (match) => wonOnBoard(match) && hasCenter(match) && !ownMoves(match).some((move) => isCenter(match, move)),
+  },
+  {
+    id: "three-move-win",
+    name: "Three and done",
+    description: "Win with your first three moves",
+    earned: (match) => wonOnBoard(match) && ownMoves(match).length <= 3,
+  },
+  {
+    id: "win-streak-10",
+    name: "On a roll",
+    description: `Win ${STREAK_LENGTH} games in a row`,
+    earned: (match, history) => won(match) && currentStreak(history) >= STREAK_LENGTH,
+  },
+  {
+    id: "beat-hard-bot",
+    name: "Machine breaker",
+    description: "Beat the computer on Hard or Perfect",
+    earned: (match) => won(match) && (match.botDifficulty === "hard" || match.botDifficulty === "perfect"),
+  },
+  {
+    id: "first-ultimate-win",
+    name: "Ultimate victor",
+    description: "Win a game of Ultimate Tic-Tac-Toe",
+    earned: (match) => won(match) && match.mode === "ultimate",
+  },
+];
+
+export const achievementById = (id: string) => ACHIEVEMENTS.find((achievement) => achievement.id === id);
+
+// Everything the game qualifies for, whether or not it was unlocked before
+export const earnedBy = (match: MatchRecord, history: MatchRecord[]): Achievement[] => {
+  const sorted = [match, ...history.filter(({ id }) => id !== match.id)].sort((a, b) => b.endedAt - a.endedAt);
+  return ACHIEVEMENTS.filter((achievement) => achievement.earned(match, sorted));
+};
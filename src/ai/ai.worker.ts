@@ -0,0 +1,18 @@
+import { chooseBotMove } from "./index";
+import type { WorkerRequest, WorkerResponse } from "./protocol";
+
+const reply = (response: WorkerResponse) => self.postMessage(response);
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  if (request.type !== "search") return;
+
+  try {
+    const move = chooseBotMove(request.state, request.difficulty, {
+      deadline: Date.now() + request.timeBudgetMs,
+    });
+    reply({ type: "move", id: request.id, move });
+  } catch (error) {
+    reply({ type: "error", id: request.id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,95 @@
+import type { AnyGameState, Move } from "@/engine";
+import { chooseBotMove } from "./index";
+import type { Difficulty } from "./types";
+import type { WorkerRequest, WorkerResponse } from "./protocol";
+
+export const DEFAULT_TIME_BUDGET_MS = 2000;
+
+export class SearchCancelledError extends Error {
+  constructor() {
+    super("Search was cancelled");
+    this.name = "SearchCancelledError";
+  }
+}
+
+interface PendingSearch {
+  id: number;
+  resolve: (move: Move) => void;
+  reject: (error: Error) => void;
+}
+
+// Runs bot searches in a dedicated Web Worker so long searches never block rendering.
+// Only one search runs at a time; starting a new one cancels the previous one.
+class AiClient {
+  private worker: Worker | null = null;
+  private pending: PendingSearch | null = null;
+  private nextId = 0;
+
+  requestMove(state: AnyGameState, difficulty: Difficulty, timeBudgetMs = DEFAULT_TIME_BUDGET_MS): Promise<Move> {
+    this.cancel();
+
+    // Environments without workers still get a move, just computed on the main thread
+    if (typeof Worker === "undefined") {
+      return Promise.resolve(chooseBotMove(state, difficulty, { deadline: Date.now() + timeBudgetMs }));
+    }
+
+    const worker = this.ensureWorker();
+    const id = ++this.nextId;
+
+    return new Promise((resolve, reject) => {
+      this.pending = { id, resolve, reject };
+      const request: WorkerRequest = { type: "search", id, state, difficulty, timeBudgetMs };
+      worker.postMessage(request);
+    });
+  }
+
+  // A running search cannot be interrupted from outside, so the worker is terminated
+  // and a fresh one is started with the next request
+  cancel() {
+    if (!this.pending) return;
+
+    this.pending.reject(new SearchCancelledError());
+    this.pending = null;
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  get isThinking() {
+    return this.pending !== null;
+  }
+
+  private ensureWorker() {
+    if (this.worker) return this.worker;
+
+    this.worker = new Worker(new URL("./ai.worker.ts", import.meta.url), { type: "module" });
+
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const response = event.data;
+      if (!this.pending || response.id !== this.pending.id) return;
+
+      const { resolve, reject } = this.pending;
+      this.pending = null;
+
+      if (response.type === "move") {
+        resolve(response.move);
+      } else {
+        reject(new Error(response.message));
+      }
+    };
+
+    this.worker.onerror = (event) => {
+      console.error("AI worker error:", event.message);
+      this.pending?.reject(new Error(event.message));
+      this.pending = null;
+      this.worker?.terminate();
+      this.worker = null;
+    };
+
+    return this.worker;
+  }
+}
+
+// Create a singleton instance
+const aiClient = new AiClient();
+
+export default aiClient;
@@ -0,0 +1,133 @@
+import { BoardConfig, Cell, findLineThrough, GameState, Mark, otherMark } from "@/engine";
+import { SearchGame } from "./types";
+
+export interface ClassicNode {
+  board: Cell[];
+  toMove: Mark;
+  lastMove: number | null;
+  empties: number;
+}
+
+// Every run of winLength cells on the board, cached per board shape
+const windowCache = new Map<string, number[][]>();
+
+const windowsFor = ({ boardSize, winLength }: BoardConfig): number[][] => {
+  const cacheKey = `${boardSize}:${winLength}`;
+  const cached = windowCache.get(cacheKey);
+  if (cached) return cached;
+
+  const windows: number[][] = [];
+  const directions: Array<[number, number]> = [[0, 1], [1, 0], [1, 1], [1, -1]];
+
+  for (let row = 0; row < boardSize; row++) {
+    for (let col = 0; col < boardSize; col++) {
+      for (const [dr, dc] of directions) {
+        const endRow = row + dr * (winLength - 1);
+        const endCol = col + dc * (winLength - 1);
+        if (endRow < 0 || endRow >= boardSize || endCol < 0 || endCol >= boardSize) continue;
+
+        windows.push(Array.from({ length: winLength }, (_, i) => (row + dr * i) * boardSize + col + dc * i));
+      }
+    }
+  }
+
+  windowCache.set(cacheKey, windows);
+  return windows;
+};
+
+// Boards up to 4×4 are small enough to consider every empty cell; larger ones only look
+// at cells touching existing marks, which is where every sensible move is anyway
+const FULL_WIDTH_CELLS = 16;
+
+// Positions the evaluation can already call decided, kept well below the search's WIN_SCORE
+const FORCED_WIN_SCORE = 1e10;
+
+export const createClassicGame = (config: BoardConfig): SearchGame<ClassicNode, number> => {
+  const { boardSize } = config;
+  const center = (boardSize - 1) / 2;
+  const distanceFromCenter = (index: number) =>
+    Math.abs(Math.floor(index / boardSize) - center) + Math.abs((index % boardSize) - center);
+
+  const moves = (node: ClassicNode): number[] => {
+    const candidates: number[] = [];
+
+    if (node.board.length <= FULL_WIDTH_CELLS || node.empties === node.board.length) {
+      node.board.forEach((cell, index) => {
+        if (cell === null) candidates.push(index);
+      });
+    } else {
+      node.board.forEach((cell, index) => {
+        if (cell !== null) return;
+        const row = Math.floor(index / boardSize);
+        const col = index % boardSize;
+        for (let r = Math.max(0, row - 1); r <= Math.min(boardSize - 1, row + 1); r++) {
+          for (let c = Math.max(0, col - 1); c <= Math.min(boardSize - 1, col + 1); c++) {
+            if (node.board[r * boardSize + c] !== null) {
+              candidates.push(index);
+              return;
+            }
+          }
+        }
+      });
+    }
+
+    return candidates.sort((a, b) => distanceFromCenter(a) - distanceFromCenter(b));
+  };
+
+  const play = (node: ClassicNode, move: number): ClassicNode => {
+    const board = [...node.board];
+    board[move] = node.toMove;
+    return { board, toMove: otherMark(node.toMove), lastMove: move, empties: node.empties - 1 };
+  };
+
+  const terminal = (node: ClassicNode): -1 | 0 | null => {
+    // Only the previous move can have completed a line
+    if (node.lastMove !== null && findLineThrough(node.board, config, node.lastMove)) return -1;
+    if (node.empties === 0) return 0;
+    return null;
+  };
+
+  // Score open windows: a window holding only one side's marks is worth more the fuller it is.
+  // The exponent is capped so long win lengths cannot overflow into WIN_SCORE territory.
+  const evaluate = (node: ClassicNode): number => {
+    const { winLength } = config;
+    let score = 0;
+    // Cells where the opponent would complete a line; two or more cannot all be blocked
+    const threats = new Set<number>();
+
+    for (const window of windowsFor(config)) {
+      let mine = 0;
+      let theirs = 0;
+      let gap = -1;
+      for (const index of window) {
+        const cell = node.board[index];
+        if (cell === node.toMove) mine++;
+        else if (cell !== null) theirs++;
+        else gap = index;
+      }
+
+      if (mine > 0 && theirs === 0) {
+        // We are on the move, so an almost-full window is a win next turn
+        if (mine === winLength - 1) return FORCED_WIN_SCORE;
+        score += 10 ** Math.min(mine, 6);
+      } else if (theirs > 0 && mine === 0) {
+        if (theirs === winLength - 1) threats.add(gap);
+        score -= 10 ** Math.min(theirs, 6);
+      }
+    }
+
+    return threats.size > 1 ? -FORCED_WIN_SCORE : score;
+  };
+
+  const key = (node: ClassicNode) => node.board.map((cell) => cell ?? "-").join("");
+
+  return { moves, play, terminal, evaluate, key };
+};
+
+// The search is only ever started on unfinished games, so the root needs no lastMove
+export const toClassicNode = (state: GameState): ClassicNode => ({
+  board: state.board,
+  toMove: state.currentTurn,
+  lastMove: null,
+  empties: state.board.filter((cell) => cell === null).length,
+});
@@ -0,0 +1,70 @@
+import { AnyGameState, GameState, isUltimateState, legalMoves, legalUltimateMoves, Move, UltimateGameState, UltimateMove } from "@/engine";
+import { createClassicGame, toClassicNode } from "./classic";
+import { toUltimateNode, ultimateGame } from "./ultimate";
+import { searchWithinDeadline } from "./search";
+import { DIFFICULTIES, Difficulty } from "./types";
+
+export * from "./types";
+
+export interface ChooseMoveOptions {
+  // Epoch milliseconds after which the deepest finished search is used
+  deadline?: number;
+  random?: () => number;
+}
+
+// How deep the board allows us to look; the deadline usually stops the search earlier
+const depthCapFor = (cells: number) => {
+  if (cells <= 9) return Infinity;
+  if (cells <= 16) return 7;
+  if (cells <= 25) return 5;
+  return 4;
+};
+
+const ULTIMATE_DEPTH_CAP = 7;
+
+// Pick the bot's move for the side to move. Lower difficulties search shallower and
+// sometimes throw the search result away for a random legal move.
+export const chooseMove = (
+  state: GameState,
+  difficulty: Difficulty,
+  { deadline, random = Math.random }: ChooseMoveOptions = {},
+): number => {
+  const moves = legalMoves(state);
+  if (moves.length === 0) {
+    throw new Error("No legal moves left");
+  }
+
+  const profile = DIFFICULTIES[difficulty];
+  if (random() < profile.mistakeRate) {
+    return moves[Math.floor(random() * moves.length)];
+  }
+
+  const depth = Math.min(profile.depth, depthCapFor(state.board.length), moves.length);
+  const { move } = searchWithinDeadline(createClassicGame(state), toClassicNode(state), depth, deadline);
+
+  return move ?? moves[0];
+};
+
+export const chooseUltimateMove = (
+  state: UltimateGameState,
+  difficulty: Difficulty,
+  { deadline, random = Math.random }: ChooseMoveOptions = {},
+): UltimateMove => {
+  const moves = legalUltimateMoves(state);
+  if (moves.length === 0) {
+    throw new Error("No legal moves left");
+  }
+
+  const profile = DIFFICULTIES[difficulty];
+  if (random() < profile.mistakeRate) {
+    return moves[Math.floor(random() * moves.length)];
+  }
+
+  const depth = Math.min(profile.depth, ULTIMATE_DEPTH_CAP);
+  const { move } = searchWithinDeadline(ultimateGame, toUltimateNode(state), depth, deadline);
+
+  return move === null ? moves[0] : { board: Math.floor(move / 9), cell: move % 9 };
+};
+
+export const chooseBotMove = (state: AnyGameState, difficulty: Difficulty, options: ChooseMoveOptions = {}): Move =>
+  isUltimateState(state) ? chooseUltimateMove(state, difficulty, options) : chooseMove(state, difficulty, options);
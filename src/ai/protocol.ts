@@ -0,0 +1,19 @@
+import type { AnyGameState, Move } from "@/engine";
+import type { Difficulty } from "./types";
+
+// Messages exchanged with ai.worker.ts. Every request carries an id that its answer echoes,
+// so answers to searches that were abandoned in the meantime can be recognised and dropped.
+
+export interface SearchRequest {
+  type: "search";
+  id: number;
+  state: AnyGameState;
+  difficulty: Difficulty;
+  timeBudgetMs: number;
+}
+
+export type WorkerRequest = SearchRequest;
+
+export type WorkerResponse =
+  | { type: "move"; id: number; move: Move }
+  | { type: "error"; id: number; message: string };
@@ -0,0 +1,124 @@
+import { SearchGame } from "./types";
+
+// Larger than any heuristic evaluation, so decided games always dominate
+export const WIN_SCORE = 1e12;
+
+type Bound = "exact" | "lower" | "upper";
+
+interface TableEntry<M> {
+  depth: number;
+  score: number;
+  bound: Bound;
+  move: M | null;
+}
+
+export type TranspositionTable<M> = Map<string, TableEntry<M>>;
+
+export interface SearchResult<M> {
+  move: M | null;
+  score: number;
+}
+
+// Thrown from deep inside the recursion once the deadline has passed
+class SearchTimeout extends Error {
+  constructor() {
+    super("Search ran out of time");
+    this.name = "SearchTimeout";
+  }
+}
+
+// Checking the clock on every node is measurably slow; every this many nodes is plenty
+const CLOCK_CHECK_INTERVAL = 1024;
+
+// Negamax with alpha-beta pruning. Positions are cached in the transposition table so
+// transpositions (the same board reached through a different move order) are searched once.
+export const searchBestMove = <S, M>(
+  game: SearchGame<S, M>,
+  root: S,
+  depth: number,
+  table: TranspositionTable<M> = new Map(),
+  deadline = Infinity,
+): SearchResult<M> => {
+  let nodes = 0;
+
+  const negamax = (state: S, remaining: number, alpha: number, beta: number, ply: number): SearchResult<M> => {
+    if (++nodes % CLOCK_CHECK_INTERVAL === 0 && Date.now() > deadline) {
+      throw new SearchTimeout();
+    }
+
+    const terminal = game.terminal(state);
+    if (terminal !== null) {
+      // Prefer quick wins and slow losses
+      return { move: null, score: terminal * (WIN_SCORE - ply) };
+    }
+
+    if (remaining <= 0) {
+      return { move: null, score: game.evaluate(state) };
+    }
+
+    const key = game.key(state);
+    const cached = table.get(key);
+    const originalAlpha = alpha;
+
+    if (cached && cached.depth >= remaining) {
+      if (cached.bound === "exact") return { move: cached.move, score: cached.score };
+      if (cached.bound === "lower") alpha = Math.max(alpha, cached.score);
+      if (cached.bound === "upper") beta = Math.min(beta, cached.score);
+      if (alpha >= beta) return { move: cached.move, score: cached.score };
+    }
+
+    const moves = game.moves(state);
+    // Try the best move from a previous visit first; it makes cut-offs far more likely
+    if (cached?.move != null) {
+      const index = moves.indexOf(cached.move);
+      if (index > 0) {
+        moves.splice(index, 1);
+        moves.unshift(cached.move);
+      }
+    }
+
+    let best: SearchResult<M> = { move: moves[0] ?? null, score: -Infinity };
+
+    for (const move of moves) {
+      const score = -negamax(game.play(state, move), remaining - 1, -beta, -alpha, ply + 1).score;
+      if (score > best.score) {
+        best = { move, score };
+      }
+      alpha = Math.max(alpha, score);
+      if (alpha >= beta) break;
+    }
+
+    const bound: Bound = best.score <= originalAlpha ? "upper" : best.score >= beta ? "lower" : "exact";
+    table.set(key, { depth: remaining, score: best.score, bound, move: best.move });
+
+    return best;
+  };
+
+  return negamax(root, depth, -Infinity, Infinity, 0);
+};
+
+// Search one ply deeper at a time until maxDepth or the deadline, keeping the result of the
+// deepest search that finished. Earlier iterations fill the table, which orders later ones well.
+export const searchWithinDeadline = <S, M>(
+  game: SearchGame<S, M>,
+  root: S,
+  maxDepth: number,
+  deadline = Infinity,
+): SearchResult<M> => {
+  const table: TranspositionTable<M> = new Map();
+  let best: SearchResult<M> = { move: null, score: 0 };
+
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    try {
+      best = searchBestMove(game, root, depth, table, deadline);
+    } catch (error) {
+      if (error instanceof SearchTimeout) break;
+      throw error;
+    }
+
+    // A forced result will not change by looking further
+    if (Math.abs(best.score) >= WIN_SCORE / 2) break;
+  }
+
+  return best;
+};
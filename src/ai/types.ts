@@ -0,0 +1,37 @@
+import type { Mark } from "@/engine";
+
+export type Difficulty = "easy" | "medium" | "hard" | "perfect";
+
+export interface DifficultyProfile {
+  label: string;
+  // Plies searched; Infinity means "as deep as the board allows"
+  depth: number;
+  // Chance of deliberately playing a random move instead of the best one
+  mistakeRate: number;
+  // Whether the bot grants takebacks and accepts draw offers
+  forgiving: boolean;
+}
+
+export const DIFFICULTIES: Record<Difficulty, DifficultyProfile> = {
+  easy: { label: "Easy", depth: 1, mistakeRate: 0.4, forgiving: true },
+  medium: { label: "Medium", depth: 2, mistakeRate: 0.2, forgiving: true },
+  hard: { label: "Hard", depth: 4, mistakeRate: 0.05, forgiving: false },
+  perfect: { label: "Perfect", depth: Infinity, mistakeRate: 0, forgiving: false },
+};
+
+export const DEFAULT_DIFFICULTY: Difficulty = "medium";
+
+export interface BotSettings {
+  mark: Mark;
+  difficulty: Difficulty;
+}
+
+// A game as seen by the search: everything is from the point of view of the side to move
+export interface SearchGame<S, M> {
+  moves(state: S): M[];
+  play(state: S, move: M): S;
+  // -1 when the side to move has lost, 0 for a draw, null while the game goes on
+  terminal(state: S): -1 | 0 | null;
+  evaluate(state: S): number;
+  key(state: S): string;
+}
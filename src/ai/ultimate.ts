@@ -0,0 +1,115 @@
+import { Cell, getResult, getUltimateResult, Mark, otherMark, SubBoardResult, UltimateGameState } from "@/engine";
+import { SearchGame } from "./types";
+
+// Moves are encoded as board * 9 + cell so the search can compare them by value
+export interface UltimateNode {
+  cells: Cell[];
+  results: SubBoardResult[];
+  active: number | null;
+  toMove: Mark;
+  outcome: -1 | 0 | null;
+}
+
+const SUB_BOARD_CONFIG = { boardSize: 3, winLength: 3 };
+
+const LINES = [
+  [0, 1, 2],
+  [3, 4, 5],
+  [6, 7, 8],
+  [0, 3, 6],
+  [1, 4, 7],
+  [2, 5, 8],
+  [0, 4, 8],
+  [2, 4, 6],
+];
+
+// Centre squares take part in the most lines, corners in the next most
+const SQUARE_WEIGHT = [3, 2, 3, 2, 4, 2, 3, 2, 3];
+
+// Two of ours and an empty third in a line; the same shape counts for the big board
+const countOpenTwos = (cells: ArrayLike<Cell | SubBoardResult>, mark: Mark) => {
+  let count = 0;
+  for (const [a, b, c] of LINES) {
+    const line = [cells[a], cells[b], cells[c]];
+    const mine = line.filter((cell) => cell === mark).length;
+    const empty = line.filter((cell) => cell === null).length;
+    if (mine === 2 && empty === 1) count++;
+  }
+  return count;
+};
+
+const subBoard = (cells: Cell[], board: number) => cells.slice(board * 9, board * 9 + 9);
+
+export const ultimateGame: SearchGame<UltimateNode, number> = {
+  moves(node) {
+    const boards = node.active === null ? [0, 1, 2, 3, 4, 5, 6, 7, 8] : [node.active];
+    const moves: number[] = [];
+
+    for (const board of boards) {
+      if (node.results[board] !== null) continue;
+      for (let cell = 0; cell < 9; cell++) {
+        if (node.cells[board * 9 + cell] === null) moves.push(board * 9 + cell);
+      }
+    }
+
+    return moves.sort((a, b) => SQUARE_WEIGHT[b % 9] - SQUARE_WEIGHT[a % 9]);
+  },
+
+  play(node, move) {
+    const board = Math.floor(move / 9);
+    const cell = move % 9;
+    const cells = [...node.cells];
+    cells[move] = node.toMove;
+
+    const results = [...node.results];
+    const local = getResult(subBoard(cells, board), SUB_BOARD_CONFIG);
+    results[board] = local.status === "won" ? local.mark : local.status === "draw" ? "draw" : null;
+
+    const overall = getUltimateResult(results);
+    return {
+      cells,
+      results,
+      active: results[cell] === null ? cell : null,
+      toMove: otherMark(node.toMove),
+      // A finished game was always finished by the player who just moved
+      outcome: overall.status === "won" ? -1 : overall.status === "draw" ? 0 : null,
+    };
+  },
+
+  terminal(node) {
+    return node.outcome;
+  },
+
+  evaluate(node) {
+    const them = otherMark(node.toMove);
+    let score = 0;
+
+    for (let board = 0; board < 9; board++) {
+      const result = node.results[board];
+      if (result === node.toMove) score += 100 * SQUARE_WEIGHT[board];
+      else if (result === them) score -= 100 * SQUARE_WEIGHT[board];
+      else if (result === null) {
+        const cells = subBoard(node.cells, board);
+        score += 10 * (countOpenTwos(cells, node.toMove) - countOpenTwos(cells, them));
+      }
+    }
+
+    score += 300 * (countOpenTwos(node.results, node.toMove) - countOpenTwos(node.results, them));
+    // Being free to play anywhere is an advantage
+    if (node.active === null) score += 20;
+
+    return score;
+  },
+
+  key(node) {
+    return `${node.cells.map((cell) => cell ?? "-").join("")}${node.active ?? "*"}`;
+  },
+};
+
+export const toUltimateNode = (state: UltimateGameState): UltimateNode => ({
+  cells: state.boards.flat(),
+  results: state.boardResults,
+  active: state.activeBoard,
+  toMove: state.currentTurn,
+  outcome: null,
+});
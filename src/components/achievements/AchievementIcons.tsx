@@ -0,0 +1,37 @@
+import React from "react";
+import { AchievementId, ACHIEVEMENTS } from "@/achievements";
+import { cn } from "@/lib/utils";
+import { Bot, CircleDashed, Flame, Grid3x3, LucideIcon, Trophy, Zap } from "lucide-react";
+
+const ACHIEVEMENT_ICONS: Record<AchievementId, LucideIcon> = {
+  "first-win": Trophy,
+  "no-center-win": CircleDashed,
+  "three-move-win": Zap,
+  "win-streak-10": Flame,
+  "beat-hard-bot": Bot,
+  "first-ultimate-win": Grid3x3,
+};
+
+export const AchievementIcon: React.FC<{ id: AchievementId; size?: number }> = ({ id, size }) => {
+  const Icon = ACHIEVEMENT_ICONS[id];
+  return <Icon size={size} />;
+};
+
+// A player's badges as a row of small icons, in the order of ACHIEVEMENTS. Ids this client does
+// not know (from a newer one, say) are left out.
+export const AchievementIcons: React.FC<{ ids: string[]; className?: string }> = ({ ids, className }) => {
+  const shown = ACHIEVEMENTS.filter((achievement) => ids.includes(achievement.id));
+  if (shown.length === 0) return null;
+
+  return (
+    <span className={cn("inline-flex items-center gap-0.5 text-game-accent", className)}>
+      {shown.map(({ id, name, description }) => (
+        <span key={id} title={`${name}: ${description}`}>
+          <AchievementIcon id={id} size={12} />
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default AchievementIcons;
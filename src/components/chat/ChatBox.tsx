@@ -4,12 +4,12 @@ import { useGame } from "@/context/GameContext";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { SendHorizontal } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
 export const ChatBox: React.FC = () => {
-  const { messages, sendMessage, username } = useGame();
+  const { messages, sendMessage, username, gameState, isSpectator } = useGame();
   const [newMessage, setNewMessage] = useState("");
   const scrollAreaRef = useRef<HTMLDivElement>(null);
 
@@ -21,6 +21,13 @@ export const ChatBox: React.FC = () => {
     }
   }, [messages]);
 
+  // Rated rooms show each player's rating by their name
+  const ratingOf = (sender: string) => {
+    const { players, ratings } = gameState ?? {};
+    if (!players || !ratings) return null;
+    return players.X === sender ? ratings.X : players.O === sender ? ratings.O : null;
+  };
+
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     if (newMessage.trim() && username) {
@@ -32,7 +39,8 @@ export const ChatBox: React.FC = () => {
   return (
     <Card className="h-full flex flex-col shadow-lg border-2 border-game-secondary">
       <CardHeader className="pb-2">
-        <CardTitle className="text-lg font-bold text-game-primary">Game Chat</CardTitle>
+        <CardTitle className="text-lg font-bold text-game-primary">{isSpectator ? "Spectator Chat" : "Game Chat"}</CardTitle>
+        {isSpectator && <CardDescription>You can read the players; only other spectators read you.</CardDescription>}
       </CardHeader>
       <CardContent className="flex-1 flex flex-col p-3 pt-0">
         <ScrollArea className="flex-1 pr-4" ref={scrollAreaRef}>
@@ -49,11 +57,21 @@ export const ChatBox: React.FC = () => {
                   className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
                     msg.sender === username
                       ? 'bg-game-primary text-white rounded-tr-none'
-                      : 'bg-game-secondary rounded-tl-none'
+                      : msg.channel === "spectators"
+                        ? 'bg-muted rounded-tl-none'
+                        : 'bg-game-secondary rounded-tl-none'
                   }`}
                 >
                   {msg.sender !== username && (
-                    <div className="font-semibold text-xs">{msg.sender}</div>
+                    <div className="font-semibold text-xs">
+                      {msg.sender}
+                      {ratingOf(msg.sender) !== null && (
+                        <span className="font-normal text-muted-foreground ml-1">({ratingOf(msg.sender)})</span>
+                      )}
+                      {msg.channel === "spectators" && (
+                        <span className="font-normal text-muted-foreground ml-1">· watching</span>
+                      )}
+                    </div>
                   )}
                   <div>{msg.text}</div>
                 </div>
@@ -67,7 +85,7 @@ export const ChatBox: React.FC = () => {
         
         <form onSubmit={handleSendMessage} className="mt-3 flex gap-2">
           <Input
-            placeholder="Type a message..."
+            placeholder={isSpectator ? "Message other spectators..." : "Type a message..."}
             value={newMessage}
             onChange={(e) => setNewMessage(e.target.value)}
             className="flex-1 border-2 border-game-secondary focus:border-game-primary"
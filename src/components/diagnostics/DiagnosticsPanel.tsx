@@ -0,0 +1,69 @@
+import React from "react";
+import { useDiagnostics } from "@/hooks/use-diagnostics";
+import diagnostics from "@/services/diagnostics";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Bug } from "lucide-react";
+import { format } from "date-fns";
+
+export const DiagnosticsPanel: React.FC = () => {
+  const rejected = useDiagnostics();
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 gap-1" title="Diagnostics">
+          <Bug size={14} />
+          {rejected.length > 0 && (
+            <Badge variant="destructive" className="h-4 px-1 text-[10px]">
+              {rejected.length}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Diagnostics</SheetTitle>
+          <SheetDescription>
+            Server payloads that failed validation. None of them were applied to the game.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => diagnostics.clear()} disabled={rejected.length === 0}>
+            Clear
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 pr-4">
+          {rejected.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8 text-sm">Nothing has been rejected.</p>
+          ) : (
+            <div className="space-y-3">
+              {rejected.map((entry) => (
+                <div key={entry.id} className="border rounded-md p-3 space-y-2">
+                  <div className="flex justify-between items-center">
+                    <span className="font-mono text-sm font-semibold">{entry.source}</span>
+                    <span className="text-xs text-muted-foreground">{format(entry.receivedAt, "HH:mm:ss")}</span>
+                  </div>
+                  <ul className="text-xs text-red-600 list-disc pl-4">
+                    {entry.issues.map((issue, index) => (
+                      <li key={index}>{issue}</li>
+                    ))}
+                  </ul>
+                  <pre className="text-xs bg-muted rounded p-2 overflow-x-auto max-h-48">
+                    {JSON.stringify(entry.payload, null, 2)}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default DiagnosticsPanel;
@@ -0,0 +1,115 @@
+import React from "react";
+import { AnyGameState, isUltimateState, Mark, otherMark, ProposalKind } from "@/engine";
+import { useGame } from "@/context/GameContext";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Flag, Handshake, Undo2 } from "lucide-react";
+
+const OFFER_LABELS: Record<ProposalKind, { offered: string; declined: string }> = {
+  draw: { offered: "offers a draw", declined: "declined your draw offer" },
+  takeback: { offered: "asks to take back their last move", declined: "declined your takeback request" },
+};
+
+const hasMoved = (state: AnyGameState, mark: Mark) =>
+  isUltimateState(state) ? state.boards.some((board) => board.includes(mark)) : state.board.includes(mark);
+
+// Resign, offer a draw or ask for a takeback while the game is on, and answer the opponent's offers
+export const GameActions: React.FC<{ gameState: AnyGameState }> = ({ gameState }) => {
+  const { username, resign, propose, answerProposal } = useGame();
+  const { players, proposal } = gameState;
+
+  const mark: Mark | null = players.X === username ? "X" : players.O === username ? "O" : null;
+  if (!mark || gameState.gameOver || !players.X || !players.O) return null;
+
+  const opponent = players[otherMark(mark)];
+  const pending = proposal && !proposal.declined ? proposal : null;
+  // A declined offer cannot be repeated before the next move
+  const blocked = (kind: ProposalKind) => Boolean(pending) || (proposal?.kind === kind && proposal.from === mark);
+
+  const renderProposal = () => {
+    if (pending?.from === mark) {
+      return <div className="text-sm text-muted-foreground">Waiting for {opponent} to answer…</div>;
+    }
+    if (pending) {
+      return (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+          <span className="font-medium">
+            {opponent} {OFFER_LABELS[pending.kind].offered}
+          </span>
+          <Button size="sm" onClick={() => answerProposal(true)}>
+            Accept
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => answerProposal(false)}>
+            Decline
+          </Button>
+        </div>
+      );
+    }
+    if (proposal?.declined && proposal.from === mark) {
+      return (
+        <div className="text-sm text-muted-foreground">
+          {opponent} {OFFER_LABELS[proposal.kind].declined}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      {renderProposal()}
+      <div className="flex flex-wrap justify-center gap-2">
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" size="sm" className="flex items-center gap-2">
+              <Flag size={16} />
+              Resign
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Resign this game?</AlertDialogTitle>
+              <AlertDialogDescription>{opponent} will be given the win.</AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep playing</AlertDialogCancel>
+              <AlertDialogAction onClick={() => resign()}>Resign</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          disabled={blocked("draw")}
+          onClick={() => propose("draw")}
+        >
+          <Handshake size={16} />
+          Offer Draw
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          disabled={blocked("takeback") || !hasMoved(gameState, mark)}
+          onClick={() => propose("takeback")}
+        >
+          <Undo2 size={16} />
+          Request Takeback
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default GameActions;
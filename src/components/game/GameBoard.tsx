@@ -1,28 +1,110 @@
 
 import React from "react";
-import { GameState } from "@/services/socketService";
+import { Link } from "react-router-dom";
+import { AnyGameState, GameState } from "@/services/socketService";
+import { boardConfigOf, isUltimateState, Mark, otherMark, seriesStanding } from "@/engine";
 import { useGame } from "@/context/GameContext";
+import UltimateBoard from "@/components/game/UltimateBoard";
+import GameActions from "@/components/game/GameActions";
+import PlayerClock from "@/components/game/PlayerClock";
+import ImportGameDialog from "@/components/replay/ImportGameDialog";
+import matchHistory from "@/services/matchHistory";
+import { notateMatch, serializeGame } from "@/notation";
+import { toast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Loader2, RefreshCw, Trophy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Bot, ClipboardCopy, History, Loader2, RefreshCw, Trophy } from "lucide-react";
+import { DIFFICULTIES } from "@/ai";
+import { formatRatingChange } from "@/rating";
 
 interface GameBoardProps {
-  gameState: GameState;
+  gameState: AnyGameState;
+  // For replays and spectators: no moves, no restart, and the live room's bot and turn status are not shown
+  readOnly?: boolean;
 }
 
-export const GameBoard: React.FC<GameBoardProps> = ({ gameState }) => {
-  const { makeMove, restartGame, username } = useGame();
+export const GameBoard: React.FC<GameBoardProps> = ({ gameState, readOnly = false }) => {
+  const { makeMove, restartGame, username, bot, isBotThinking, lastMatchId } = useGame();
   
   const isPlayerTurn = () => {
+    if (readOnly) return false;
     const playerMarker = username === gameState.players.X ? "X" : "O";
     return playerMarker === gameState.currentTurn && !gameState.gameOver;
   };
 
+  // The finished game in text notation, for pasting into a chat or a bug report
+  const handleCopyGame = () => {
+    matchHistory
+      .get(lastMatchId)
+      .then((match) => navigator.clipboard.writeText(serializeGame(notateMatch(match))))
+      .then(() => toast({ title: "Game copied", description: "Paste it anywhere, or import it to replay it." }))
+      .catch((error) => {
+        console.error("Failed to copy game:", error);
+        toast({ title: "Could not copy the game", variant: "destructive" });
+      });
+  };
+
+  // Within a series the button starts its next game, or the next series once it is decided
+  const restartLabel = () => {
+    const standing = seriesStanding(gameState);
+    if (!standing || gameState.series.bestOf <= 1) return "Play Again";
+    return standing.over ? "New Series" : "Next Game";
+  };
+
   const isWinningCell = (index: number) => {
     return gameState.winningCombination?.includes(index);
   };
   
+  const renderBotBadge = (mark: Mark) => {
+    if (readOnly || bot?.mark !== mark) return null;
+    
+    return (
+      <Badge variant="secondary" className="ml-2 gap-1 align-middle">
+        <Bot size={12} />
+        {DIFFICULTIES[bot.difficulty].label}
+      </Badge>
+    );
+  };
+  
+  const renderRating = (mark: Mark) => {
+    const rating = gameState.ratings?.[mark];
+    if (!gameState.players[mark] || rating == null) return null;
+    return <span className="ml-1 text-sm font-normal text-muted-foreground">({rating})</span>;
+  };
+
+  // How the finished rated game moved the viewer's rating
+  const renderRatingChange = () => {
+    const mark: Mark = username === gameState.players.X ? "X" : "O";
+    const change = gameState.ratingChange?.[mark];
+    if (readOnly || change === undefined || username !== gameState.players[mark]) return null;
+
+    return (
+      <div className="text-sm text-muted-foreground">
+        Rating {gameState.ratings?.[mark]}{" "}
+        <span className={cn("font-semibold", change > 0 && "text-green-600", change < 0 && "text-red-500")}>
+          ({formatRatingChange(change)})
+        </span>
+      </div>
+    );
+  };
+
+  // Games can also end without a line or a full board
+  const renderEndReason = () => {
+    const { endReason } = gameState;
+    if (endReason !== "resigned" && endReason !== "timeout") return null;
+    const winnerMark: Mark = gameState.winner === gameState.players.X ? "X" : "O";
+    const loser = gameState.players[otherMark(winnerMark)];
+    const subject = loser === username ? "You" : loser;
+
+    return (
+      <div className="text-sm text-muted-foreground">
+        {subject} {endReason === "resigned" ? "resigned" : "ran out of time"}
+      </div>
+    );
+  };
+
   const renderMarker = (value: string | null, index: number) => {
     if (!value) return null;
     
@@ -40,6 +122,49 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState }) => {
     );
   };
 
+  const renderClassicBoard = (state: GameState) => {
+    const { boardSize, winLength } = boardConfigOf(state);
+    
+    return (
+      <>
+        {boardSize !== 3 && (
+          <div className="mb-2 text-center text-sm text-muted-foreground">
+            {boardSize}×{boardSize} board, {winLength} in a row to win
+          </div>
+        )}
+        
+        <div
+          className={cn(
+            "board-grid w-full mx-auto",
+            boardSize <= 3 && "max-w-xs",
+            boardSize > 3 && boardSize <= 7 && "board-grid-md max-w-md",
+            boardSize > 7 && "board-grid-lg max-w-2xl",
+            !isPlayerTurn() && !state.gameOver && !readOnly && "opacity-90"
+          )}
+          style={{ "--board-size": boardSize } as React.CSSProperties}
+        >
+          {state.board.map((cell, index) => (
+            <div
+              key={index}
+              className={cn(
+                "board-cell bg-game-secondary/30 rounded-md",
+                isWinningCell(index) && "winning-cell",
+                isPlayerTurn() && !cell && "hover:bg-game-secondary/50"
+              )}
+              onClick={() => {
+                if (!cell && isPlayerTurn() && !state.gameOver) {
+                  makeMove(index);
+                }
+              }}
+            >
+              {renderMarker(cell, index)}
+            </div>
+          ))}
+        </div>
+      </>
+    );
+  };
+
   return (
     <Card className="p-6 shadow-lg border-2 border-game-secondary">
       <div className="mb-4 flex justify-between items-center">
@@ -49,6 +174,9 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState }) => {
             gameState.currentTurn === "X" && !gameState.gameOver && "text-game-primary font-bold animate-pulse-light"
           )}>
             X: {gameState.players.X || "Waiting..."}
+            {renderRating("X")}
+            {renderBotBadge("X")}
+            <PlayerClock gameState={gameState} mark="X" />
           </div>
           <div>vs</div>
           <div className={cn(
@@ -56,10 +184,13 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState }) => {
             gameState.currentTurn === "O" && !gameState.gameOver && "text-game-accent font-bold animate-pulse-light"
           )}>
             O: {gameState.players.O || "Waiting..."}
+            {renderRating("O")}
+            {renderBotBadge("O")}
+            <PlayerClock gameState={gameState} mark="O" />
           </div>
         </div>
         
-        {gameState.gameOver && (
+        {gameState.gameOver && !readOnly && (
           <Button 
             variant="outline"
             size="sm"
@@ -67,33 +198,16 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState }) => {
             onClick={() => restartGame()}
           >
             <RefreshCw size={16} />
-            Play Again
+            {restartLabel()}
           </Button>
         )}
       </div>
       
-      <div className={cn(
-        "board-grid w-full max-w-xs mx-auto",
-        !isPlayerTurn() && !gameState.gameOver && "opacity-90"
-      )}>
-        {gameState.board.map((cell, index) => (
-          <div
-            key={index}
-            className={cn(
-              "board-cell bg-game-secondary/30 rounded-md",
-              isWinningCell(index) && "winning-cell",
-              isPlayerTurn() && !cell && "hover:bg-game-secondary/50"
-            )}
-            onClick={() => {
-              if (!cell && isPlayerTurn() && !gameState.gameOver) {
-                makeMove(index);
-              }
-            }}
-          >
-            {renderMarker(cell, index)}
-          </div>
-        ))}
-      </div>
+      {isUltimateState(gameState) ? (
+        <UltimateBoard gameState={gameState} canMove={isPlayerTurn()} onMove={makeMove} />
+      ) : (
+        renderClassicBoard(gameState)
+      )}
       
       {gameState.gameOver ? (
         <div className="mt-6 text-center">
@@ -103,12 +217,44 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState }) => {
               {gameState.winner === username ? "You Won!" : `${gameState.winner} Won!`}
             </div>
           ) : (
-            <div className="font-bold text-lg">It's a Draw!</div>
+            <div className="font-bold text-lg">
+              {gameState.endReason === "agreed-draw" ? "Draw agreed" : "It's a Draw!"}
+            </div>
           )}
+          {renderEndReason()}
+          {renderRatingChange()}
+          {!readOnly && (
+            <div className="mt-3 flex justify-center gap-2">
+              {lastMatchId && (
+                <>
+                  <Button variant="outline" size="sm" className="flex items-center gap-2" asChild>
+                    <Link to={`/replay/${lastMatchId}`}>
+                      <History size={16} />
+                      Replay
+                    </Link>
+                  </Button>
+                  <Button variant="outline" size="sm" className="flex items-center gap-2" onClick={handleCopyGame}>
+                    <ClipboardCopy size={16} />
+                    Copy game
+                  </Button>
+                </>
+              )}
+              <ImportGameDialog />
+            </div>
+          )}
+        </div>
+      ) : readOnly ? (
+        <div className="mt-6 text-center font-medium">
+          {gameState.players[gameState.currentTurn] || gameState.currentTurn} to move
         </div>
       ) : (
         <div className="mt-6 text-center">
-          {gameState.players.X && gameState.players.O ? (
+          {isBotThinking ? (
+            <div className="flex items-center justify-center gap-2 font-medium">
+              <Loader2 size={16} className="animate-spin" />
+              {gameState.players[gameState.currentTurn]} is thinking…
+            </div>
+          ) : gameState.players.X && gameState.players.O ? (
             <div className="font-medium">
               {isPlayerTurn() 
                 ? "Your turn!" 
@@ -120,6 +266,7 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState }) => {
               Waiting for opponent...
             </div>
           )}
+          <GameActions gameState={gameState} />
         </div>
       )}
     </Card>
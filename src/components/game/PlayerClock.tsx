@@ -0,0 +1,44 @@
+import React, { useEffect, useReducer } from "react";
+import { AnyGameState, Mark, timeLeft } from "@/engine";
+import { cn } from "@/lib/utils";
+
+const LOW_TIME = 10_000;
+const TICK_INTERVAL = 100;
+
+// Minutes and seconds, with tenths once time is short
+const formatClock = (ms: number) => {
+  if (ms < LOW_TIME) return (ms / 1000).toFixed(1);
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// A player's time in a timed game, counting down while it is their move
+export const PlayerClock: React.FC<{ gameState: AnyGameState; mark: Mark }> = ({ gameState, mark }) => {
+  const [, tick] = useReducer((count: number) => count + 1, 0);
+  const { clock } = gameState;
+  const running = Boolean(clock && clock.runningSince !== null) && gameState.currentTurn === mark && !gameState.gameOver;
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(tick, TICK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  if (!clock) return null;
+  const left = timeLeft(gameState, mark, Date.now());
+
+  return (
+    <span
+      className={cn(
+        "ml-2 rounded px-1.5 py-0.5 font-mono text-sm tabular-nums bg-muted text-muted-foreground",
+        running && "bg-game-primary text-white",
+        left < LOW_TIME && "text-red-500",
+        running && left < LOW_TIME && "bg-red-500 text-white",
+      )}
+    >
+      {formatClock(left)}
+    </span>
+  );
+};
+
+export default PlayerClock;
@@ -0,0 +1,68 @@
+import React from "react";
+import { AnyGameState, seriesStanding } from "@/engine";
+import { useGame } from "@/context/GameContext";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { RefreshCw, Trophy } from "lucide-react";
+
+// The running score of a best-of-N series, and who took it once it is decided
+export const SeriesScore: React.FC<{ gameState: AnyGameState; readOnly?: boolean }> = ({ gameState, readOnly = false }) => {
+  const { username, restartGame } = useGame();
+  const standing = seriesStanding(gameState);
+  const { series, players } = gameState;
+  if (!standing || series.bestOf <= 1 || !players.X || !players.O) return null;
+
+  // Seats swap every game, so the names are listed the same way round throughout: your own first
+  const names = [players.X, players.O].sort((a, b) => (a === username ? -1 : b === username ? 1 : a.localeCompare(b)));
+  const game = gameState.gameOver ? standing.played : standing.played + 1;
+  const decided = gameState.gameOver && standing.over;
+
+  const renderResult = () => {
+    if (standing.winner === null) return "The series is drawn";
+    return standing.winner === username ? "You won the series!" : `${standing.winner} wins the series`;
+  };
+
+  return (
+    <Card
+      className={cn(
+        "mb-4 p-4 border-2 border-game-secondary",
+        decided && "border-game-accent bg-game-secondary/20",
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-sm text-muted-foreground">
+          Best of {series.bestOf} · Game {game}
+        </div>
+        <div className="flex items-center gap-3 font-semibold">
+          <span>{names[0]}</span>
+          <span className="font-mono text-lg tabular-nums">
+            {standing.wins[names[0]] ?? 0} – {standing.wins[names[1]] ?? 0}
+          </span>
+          <span>{names[1]}</span>
+          {standing.draws > 0 && (
+            <span className="text-sm font-normal text-muted-foreground">
+              ({standing.draws} {standing.draws === 1 ? "draw" : "draws"})
+            </span>
+          )}
+        </div>
+      </div>
+      {decided && (
+        <div className="mt-4 flex flex-col items-center gap-3 text-center">
+          <div className="flex items-center gap-2 text-xl font-bold">
+            <Trophy className="text-game-accent" size={24} />
+            {renderResult()}
+          </div>
+          {!readOnly && (
+            <Button size="sm" className="flex items-center gap-2 bg-game-primary hover:bg-game-primary/90" onClick={() => restartGame()}>
+              <RefreshCw size={16} />
+              New Series
+            </Button>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default SeriesScore;
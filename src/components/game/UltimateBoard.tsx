@@ -0,0 +1,80 @@
+import React from "react";
+import { UltimateGameState } from "@/services/socketService";
+import { UltimateMove } from "@/engine";
+import { cn } from "@/lib/utils";
+
+interface UltimateBoardProps {
+  gameState: UltimateGameState;
+  canMove: boolean;
+  onMove: (move: UltimateMove) => void;
+}
+
+export const UltimateBoard: React.FC<UltimateBoardProps> = ({ gameState, canMove, onMove }) => {
+  const isPlayable = (board: number) =>
+    !gameState.gameOver &&
+    gameState.boardResults[board] === null &&
+    (gameState.activeBoard === null || gameState.activeBoard === board);
+
+  const isForced = (board: number) => !gameState.gameOver && gameState.activeBoard === board;
+
+  return (
+    <div className="w-full max-w-md mx-auto">
+      <div className="mb-2 text-center text-sm text-muted-foreground">
+        {gameState.gameOver
+          ? "Ultimate Tic-Tac-Toe"
+          : gameState.activeBoard === null
+            ? "Play in any open board"
+            : "Play in the highlighted board"}
+      </div>
+
+      <div className="ultimate-grid">
+        {gameState.boards.map((cells, board) => {
+          const result = gameState.boardResults[board];
+
+          return (
+            <div
+              key={board}
+              className={cn(
+                "sub-board relative rounded-md p-1 bg-game-secondary/20",
+                isForced(board) && "ring-2 ring-game-primary bg-game-primary/10",
+                !isPlayable(board) && !gameState.gameOver && "opacity-60",
+                gameState.winningCombination?.includes(board) && "winning-cell"
+              )}
+            >
+              {cells.map((cell, index) => (
+                <div
+                  key={index}
+                  className={cn(
+                    "board-cell bg-game-secondary/30 rounded-sm",
+                    canMove && isPlayable(board) && !cell && "hover:bg-game-secondary/50"
+                  )}
+                  onClick={() => {
+                    if (!cell && canMove && isPlayable(board)) {
+                      onMove({ board, cell: index });
+                    }
+                  }}
+                >
+                  {cell && <span className={cell === "X" ? "x-marker" : "o-marker"}>{cell}</span>}
+                </div>
+              ))}
+
+              {result && (
+                <div className="absolute inset-0 flex items-center justify-center rounded-md bg-white/70 pointer-events-none">
+                  {result === "draw" ? (
+                    <span className="text-sm font-semibold text-muted-foreground">Draw</span>
+                  ) : (
+                    <span className={cn("text-6xl font-bold", result === "X" ? "x-marker" : "o-marker")}>
+                      {result}
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default UltimateBoard;
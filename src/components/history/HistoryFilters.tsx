@@ -0,0 +1,102 @@
+import React from "react";
+import { DateRange } from "react-day-picker";
+import { endOfDay, format, startOfDay } from "date-fns";
+import { MatchFilters, MatchResult, NO_MATCH_FILTERS } from "@/services/matchHistory";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Button } from "@/components/ui/button";
+import { CalendarIcon } from "lucide-react";
+
+interface HistoryFiltersProps {
+  filters: MatchFilters;
+  onChange: (filters: MatchFilters) => void;
+  // Everyone played so far, for the opponent list
+  opponents: string[];
+}
+
+const ANY = "any";
+
+const RESULT_LABELS: Record<MatchResult, string> = {
+  win: "Won",
+  loss: "Lost",
+  draw: "Drawn",
+};
+
+const rangeLabel = ({ from, to }: MatchFilters) => {
+  if (!from) return "Any date";
+  if (!to || format(from, "yyyy-MM-dd") === format(to, "yyyy-MM-dd")) return format(from, "MMM d, yyyy");
+  return `${format(from, "MMM d")} – ${format(to, "MMM d, yyyy")}`;
+};
+
+export const HistoryFilters: React.FC<HistoryFiltersProps> = ({ filters, onChange, opponents }) => {
+  const handleRangeChange = (range: DateRange | undefined) => {
+    onChange({
+      ...filters,
+      from: range?.from ? startOfDay(range.from) : null,
+      to: range?.from ? endOfDay(range.to ?? range.from) : null,
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Select
+        value={filters.opponent ?? ANY}
+        onValueChange={(value) => onChange({ ...filters, opponent: value === ANY ? null : value })}
+      >
+        <SelectTrigger className="w-44">
+          <SelectValue placeholder="Opponent" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any opponent</SelectItem>
+          {opponents.map((opponent) => (
+            <SelectItem key={opponent} value={opponent}>
+              {opponent}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.result ?? ANY}
+        onValueChange={(value) => onChange({ ...filters, result: value === ANY ? null : (value as MatchResult) })}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue placeholder="Result" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any result</SelectItem>
+          {(Object.keys(RESULT_LABELS) as MatchResult[]).map((result) => (
+            <SelectItem key={result} value={result}>
+              {RESULT_LABELS[result]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="w-56 justify-start font-normal gap-2">
+            <CalendarIcon size={16} />
+            {rangeLabel(filters)}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            selected={filters.from ? { from: filters.from, to: filters.to ?? undefined } : undefined}
+            onSelect={handleRangeChange}
+            disabled={{ after: new Date() }}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+
+      <Button variant="ghost" onClick={() => onChange(NO_MATCH_FILTERS)}>
+        Clear filters
+      </Button>
+    </div>
+  );
+};
+
+export default HistoryFilters;
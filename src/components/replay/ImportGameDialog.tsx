@@ -0,0 +1,89 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { gameStates, NotationError, parseGame } from "@/notation";
+import type { ReplayLocationState } from "@/pages/Replay";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Upload } from "lucide-react";
+
+const EXAMPLE = `[X "alice"]
+[O "bob"]
+[Result "X"]
+
+1. b2 a2 2. a1 c1 3. c3`;
+
+// Paste a game in text notation and open it in the replay viewer
+export const ImportGameDialog: React.FC = () => {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setText("");
+      setError(null);
+    }
+  };
+
+  const handleImport = () => {
+    try {
+      // Checked here so mistakes can be fixed in place
+      gameStates(parseGame(text));
+    } catch (reason) {
+      if (!(reason instanceof NotationError)) throw reason;
+      setError(reason.message);
+      return;
+    }
+
+    const state: ReplayLocationState = { notation: text };
+    setOpen(false);
+    navigate("/replay", { state });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Upload size={16} />
+          Import game
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import game</DialogTitle>
+          <DialogDescription>Paste a game copied with "Copy game" to step through it.</DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          placeholder={EXAMPLE}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setError(null);
+          }}
+          className="font-mono text-xs h-48"
+        />
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        <DialogFooter>
+          <Button onClick={handleImport} disabled={!text.trim()} className="bg-game-primary hover:bg-game-primary/90">
+            Open replay
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportGameDialog;
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { AnyGameState, isUltimateState, Mark, Move } from "@/engine";
+import { formatSquare } from "@/notation";
+import GameBoard from "@/components/game/GameBoard";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronFirst, ChevronLast, ChevronLeft, ChevronRight, Pause, Play } from "lucide-react";
+
+// Autoplay speeds, as moves per second
+const SPEEDS = [0.5, 1, 2, 4];
+
+interface ReplayViewerProps {
+  // The position before the first move and after each one
+  states: AnyGameState[];
+  // The moves between them; imported games have no timestamps
+  moves: { move: Move; mark: Mark; playedAt?: number }[];
+}
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ states, moves }) => {
+  const lastStep = Math.max(0, states.length - 1);
+  const [step, setStep] = useState(lastStep);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Open on the final position, with the winning line showing
+  useEffect(() => {
+    setStep(lastStep);
+    setPlaying(false);
+  }, [states, lastStep]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= lastStep) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep((current) => current + 1), 1000 / speed);
+    return () => clearTimeout(timer);
+  }, [playing, step, lastStep, speed]);
+
+  const goTo = (target: number) => {
+    setPlaying(false);
+    setStep(Math.min(lastStep, Math.max(0, target)));
+  };
+
+  const togglePlaying = () => {
+    // Playing from the end starts over
+    if (!playing && step >= lastStep) setStep(0);
+    setPlaying(!playing);
+  };
+
+  const state = states[Math.min(step, lastStep)];
+  const played = step > 0 ? moves[step - 1] : null;
+  const grid = isUltimateState(state)
+    ? { mode: "ultimate" as const, boardSize: 3 }
+    : { mode: "classic" as const, boardSize: state.boardSize };
+
+  return (
+    <div className="space-y-4">
+      <GameBoard gameState={state} readOnly />
+
+      <Card className="p-4 space-y-4">
+        <div className="flex justify-between items-center text-sm">
+          <span className="font-medium">{step === 0 ? "Start" : `Move ${step} of ${lastStep}`}</span>
+          {played && (
+            <span className="text-muted-foreground">
+              {played.mark} at <span className="font-mono">{formatSquare(played.move, grid)}</span>
+              {played.playedAt !== undefined && <> · {format(played.playedAt, "HH:mm:ss")}</>}
+            </span>
+          )}
+        </div>
+
+        <Slider value={[step]} min={0} max={lastStep} step={1} onValueChange={([value]) => goTo(value)} />
+
+        <div className="flex justify-between items-center">
+          <div className="flex gap-1">
+            <Button variant="outline" size="icon" onClick={() => goTo(0)} disabled={step === 0} title="First move">
+              <ChevronFirst size={16} />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => goTo(step - 1)} disabled={step === 0} title="Step back">
+              <ChevronLeft size={16} />
+            </Button>
+            <Button size="icon" onClick={togglePlaying} disabled={lastStep === 0} title={playing ? "Pause" : "Play"}>
+              {playing ? <Pause size={16} /> : <Play size={16} />}
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => goTo(step + 1)} disabled={step >= lastStep} title="Step forward">
+              <ChevronRight size={16} />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => goTo(lastStep)} disabled={step >= lastStep} title="Last move">
+              <ChevronLast size={16} />
+            </Button>
+          </div>
+
+          <Select value={String(speed)} onValueChange={(value) => setSpeed(Number(value))}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SPEEDS.map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  {value}× speed
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -1,14 +1,64 @@
 
 import React from "react";
 import { useGame } from "@/context/GameContext";
+import { useToast } from "@/hooks/use-toast";
+import { roomPath } from "@/hooks/use-room-url";
+import { isLocalRoomId } from "@/services/localTransport";
 import GameBoard from "@/components/game/GameBoard";
+import SeriesScore from "@/components/game/SeriesScore";
 import ChatBox from "@/components/chat/ChatBox";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, Eye, Link2, Loader2, RefreshCw, WifiOff } from "lucide-react";
 import { Card } from "@/components/ui/card";
 
+// Covers the room while the connection is down, so nobody plays on a board the server no longer agrees with
+const ConnectionOverlay: React.FC = () => {
+  const { connectionStatus, reconnect, leaveRoom } = useGame();
+
+  return (
+    <div className="absolute inset-0 z-10 flex items-center justify-center rounded-lg bg-white/80 backdrop-blur-sm">
+      <Card className="p-6 flex flex-col items-center gap-3 text-center shadow-lg">
+        {connectionStatus === "reconnecting" ? (
+          <>
+            <Loader2 className="h-8 w-8 animate-spin text-game-primary" />
+            <p className="font-semibold">Reconnecting…</p>
+            <p className="text-sm text-muted-foreground">Your seat is kept for you while we get you back.</p>
+          </>
+        ) : (
+          <>
+            <WifiOff className="h-8 w-8 text-amber-500" />
+            <p className="font-semibold">Connection lost</p>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => reconnect()} className="bg-game-primary hover:bg-game-primary/90">
+                <RefreshCw size={14} className="mr-1" /> Try again
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => leaveRoom()}>
+                Leave Room
+              </Button>
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
 export const GameRoom: React.FC = () => {
-  const { gameState, currentRoom, leaveRoom } = useGame();
+  const { gameState, currentRoom, leaveRoom, isOfflineMode, isPeerRoom, isSpectator, connectionStatus } = useGame();
+  const { toast } = useToast();
+
+  // Server rooms can be joined from anywhere, same-device rooms from another tab
+  const canInvite = currentRoom && !isPeerRoom && (!isOfflineMode || isLocalRoomId(currentRoom));
+
+  const copyInviteLink = () => {
+    navigator.clipboard
+      .writeText(`${window.location.origin}${roomPath(currentRoom)}`)
+      .then(() => toast({ title: "Invite link copied", description: "Whoever opens it joins this room." }))
+      .catch((error) => {
+        console.error("Failed to copy invite link:", error);
+        toast({ title: "Could not copy the invite link", variant: "destructive" });
+      });
+  };
 
   if (!gameState) {
     return (
@@ -29,7 +79,7 @@ export const GameRoom: React.FC = () => {
             className="flex items-center gap-1"
           >
             <ArrowLeft size={16} />
-            Leave Room
+            {isSpectator ? "Stop Watching" : "Leave Room"}
           </Button>
           {currentRoom && (
             <div className="ml-4 flex flex-col">
@@ -37,12 +87,27 @@ export const GameRoom: React.FC = () => {
               <span className="font-mono font-medium">{currentRoom}</span>
             </div>
           )}
+          {canInvite && (
+            <Button variant="ghost" size="sm" onClick={copyInviteLink} className="ml-2 flex items-center gap-1">
+              <Link2 size={16} />
+              Copy invite link
+            </Button>
+          )}
         </div>
+        {(isSpectator || gameState.spectators?.length > 0) && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Eye size={16} />
+            {isSpectator && <span className="font-medium text-game-primary">You are watching</span>}
+            {gameState.spectators?.length > 0 && <span>Spectators: {gameState.spectators.join(", ")}</span>}
+          </div>
+        )}
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="relative grid grid-cols-1 md:grid-cols-3 gap-6">
+        {!isOfflineMode && connectionStatus !== "connected" && <ConnectionOverlay />}
         <div className="md:col-span-2">
-          <GameBoard gameState={gameState} />
+          <SeriesScore gameState={gameState} readOnly={isSpectator} />
+          <GameBoard gameState={gameState} readOnly={isSpectator} />
         </div>
         <div className="h-[500px]">
           <ChatBox />
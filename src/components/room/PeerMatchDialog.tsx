@@ -0,0 +1,189 @@
+import React, { useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { useGame } from "@/context/GameContext";
+import { RoomOptions } from "@/services/socketService";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Check, Copy, Link2, Loader2 } from "lucide-react";
+
+interface PeerMatchDialogProps {
+  // Board settings for a match this player hosts
+  options: RoomOptions;
+}
+
+// A code with a QR version and a copy button, for handing to the other player
+const CodeDisplay: React.FC<{ code: string }> = ({ code }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <QRCodeSVG value={code} size={192} level="L" className="border-4 border-white" />
+      <div className="flex w-full gap-2">
+        <Textarea readOnly value={code} className="font-mono text-xs h-16 resize-none" onFocus={(e) => e.target.select()} />
+        <Button variant="outline" size="icon" onClick={handleCopy} title="Copy code">
+          {copied ? <Check size={14} /> : <Copy size={14} />}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const Waiting: React.FC<{ label: string }> = ({ label }) => (
+  <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+    <Loader2 className="h-4 w-4 animate-spin" />
+    {label}
+  </div>
+);
+
+export const PeerMatchDialog: React.FC<PeerMatchDialogProps> = ({ options }) => {
+  const { hostPeerMatch, acceptPeerAnswer, joinPeerMatch, cancelPeerMatch, username } = useGame();
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [inviteCode, setInviteCode] = useState("");
+  const [answerInput, setAnswerInput] = useState("");
+  const [answerSent, setAnswerSent] = useState(false);
+  const [inviteInput, setInviteInput] = useState("");
+  const [answerCode, setAnswerCode] = useState("");
+
+  const reset = () => {
+    setBusy(false);
+    setError(null);
+    setInviteCode("");
+    setAnswerInput("");
+    setAnswerSent(false);
+    setInviteInput("");
+    setAnswerCode("");
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      cancelPeerMatch();
+      reset();
+    }
+  };
+
+  // Switching between hosting and joining starts over
+  const handleTabChange = () => {
+    cancelPeerMatch();
+    reset();
+  };
+
+  const run = (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    action()
+      .catch((reason) => setError(reason instanceof Error ? reason.message : String(reason)))
+      .finally(() => setBusy(false));
+  };
+
+  const handleCreateInvite = () =>
+    run(() => hostPeerMatch(`${username}'s direct match`, options).then(setInviteCode));
+
+  const handleAcceptAnswer = () =>
+    run(() => acceptPeerAnswer(answerInput).then(() => setAnswerSent(true)));
+
+  const handleAnswerInvite = () => run(() => joinPeerMatch(inviteInput).then(setAnswerCode));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1 gap-1">
+          <Link2 size={16} />
+          Direct Match
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Direct Match</DialogTitle>
+          <DialogDescription>
+            Play someone straight from browser to browser, no game server needed. Swap codes by chat, email or by
+            scanning the QR code.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="host" onValueChange={handleTabChange}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="host">Invite</TabsTrigger>
+            <TabsTrigger value="join">Accept invite</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="host" className="space-y-3">
+            {!inviteCode ? (
+              <Button onClick={handleCreateInvite} disabled={busy} className="w-full bg-game-primary hover:bg-game-primary/90">
+                {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : "Create invite code"}
+              </Button>
+            ) : (
+              <>
+                <p className="text-sm">1. Send this invite code to your opponent.</p>
+                <CodeDisplay code={inviteCode} />
+                <p className="text-sm">2. Paste the answer code they send back.</p>
+                <Textarea
+                  placeholder="Answer code"
+                  value={answerInput}
+                  onChange={(e) => setAnswerInput(e.target.value)}
+                  className="font-mono text-xs h-16"
+                  disabled={answerSent}
+                />
+                {answerSent ? (
+                  <Waiting label="Connecting…" />
+                ) : (
+                  <Button onClick={handleAcceptAnswer} disabled={busy || !answerInput.trim()} className="w-full">
+                    Connect
+                  </Button>
+                )}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="join" className="space-y-3">
+            {!answerCode ? (
+              <>
+                <Textarea
+                  placeholder="Paste the invite code"
+                  value={inviteInput}
+                  onChange={(e) => setInviteInput(e.target.value)}
+                  className="font-mono text-xs h-16"
+                />
+                <Button
+                  onClick={handleAnswerInvite}
+                  disabled={busy || !inviteInput.trim()}
+                  className="w-full bg-game-primary hover:bg-game-primary/90"
+                >
+                  {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : "Create answer code"}
+                </Button>
+              </>
+            ) : (
+              <>
+                <p className="text-sm">Send this answer code back to the player who invited you.</p>
+                <CodeDisplay code={answerCode} />
+                <Waiting label="Waiting for them to connect…" />
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PeerMatchDialog;
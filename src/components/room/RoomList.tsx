@@ -1,28 +1,72 @@
 
 import React, { useState } from "react";
-import { Room } from "@/services/socketService";
+import { Opponent, Room } from "@/services/socketService";
+import { isLocalRoomId } from "@/services/localTransport";
+import PeerMatchDialog from "@/components/room/PeerMatchDialog";
+import AchievementIcons from "@/components/achievements/AchievementIcons";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useGame } from "@/context/GameContext";
-import { Lock, Users } from "lucide-react";
+import { useAchievements } from "@/hooks/use-achievements";
+import { Eye, Lock, Timer, Users } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { v4 as uuidv4 } from "uuid";
+import {
+  defaultWinLength,
+  formatTimeControl,
+  GameMode,
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  MIN_WIN_LENGTH,
+  SERIES_LENGTHS,
+  TIME_CONTROLS,
+} from "@/engine";
+import { DEFAULT_DIFFICULTY, DIFFICULTIES, Difficulty } from "@/ai";
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
 
 export const RoomList: React.FC = () => {
-  const { rooms, joinRoom, createRoom, joinRandomGame } = useGame();
+  const { rooms, joinRoom, watchRoom, canWatch, createRoom, joinRandomGame, isOfflineMode } = useGame();
   const [newRoomName, setNewRoomName] = useState("");
   const [isPrivate, setIsPrivate] = useState(false);
+  const [rated, setRated] = useState(false);
+  // Index into TIME_CONTROLS, or "none" for an untimed room
+  const [timeControl, setTimeControl] = useState("none");
+  const [mode, setMode] = useState<GameMode>("classic");
+  const [boardSize, setBoardSize] = useState(3);
+  const [winLength, setWinLength] = useState(3);
+  const [bestOf, setBestOf] = useState(1);
+  const [opponent, setOpponent] = useState<Opponent>("bot");
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY);
   const [joinCode, setJoinCode] = useState("");
   
+  const handleBoardSizeChange = (value: string) => {
+    const size = Number(value);
+    setBoardSize(size);
+    setWinLength(defaultWinLength(size));
+  };
+  
   const handleCreateRoom = (e: React.FormEvent) => {
     e.preventDefault();
     if (newRoomName.trim()) {
-      createRoom(newRoomName.trim(), isPrivate);
+      createRoom(newRoomName.trim(), isPrivate, {
+        mode,
+        boardSize,
+        winLength,
+        bestOf,
+        rated: rated && !isOfflineMode,
+        timeControl: isOfflineMode || timeControl === "none" ? undefined : TIME_CONTROLS[Number(timeControl)],
+        opponent,
+        difficulty,
+      });
       setNewRoomName("");
       setIsPrivate(false);
+      setRated(false);
+      setTimeControl("none");
     }
   };
   
@@ -48,6 +92,7 @@ export const RoomList: React.FC = () => {
             >
               Find Random Match
             </Button>
+            <PeerMatchDialog options={{ mode, boardSize, winLength, bestOf }} />
           </div>
           
           <form onSubmit={handleJoinWithCode} className="flex gap-2">
@@ -73,6 +118,95 @@ export const RoomList: React.FC = () => {
                 className="flex-1 border-2 border-game-secondary focus:border-game-primary"
               />
             </div>
+            <Select value={mode} onValueChange={(value) => setMode(value as GameMode)}>
+              <SelectTrigger className="border-2 border-game-secondary" aria-label="Game mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="classic">Classic</SelectItem>
+                <SelectItem value="ultimate">Ultimate Tic-Tac-Toe</SelectItem>
+              </SelectContent>
+            </Select>
+            {mode === "classic" && (
+              <div className="flex gap-2">
+                <Select value={String(boardSize)} onValueChange={handleBoardSizeChange}>
+                  <SelectTrigger className="flex-1 border-2 border-game-secondary" aria-label="Board size">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {range(MIN_BOARD_SIZE, MAX_BOARD_SIZE).map((size) => (
+                      <SelectItem key={size} value={String(size)}>
+                        {size}×{size} board
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={String(winLength)} onValueChange={(value) => setWinLength(Number(value))}>
+                  <SelectTrigger className="flex-1 border-2 border-game-secondary" aria-label="Win length">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {range(MIN_WIN_LENGTH, boardSize).map((length) => (
+                      <SelectItem key={length} value={String(length)}>
+                        {length} in a row
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Select value={String(bestOf)} onValueChange={(value) => setBestOf(Number(value))}>
+              <SelectTrigger className="border-2 border-game-secondary" aria-label="Series length">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SERIES_LENGTHS.map((length) => (
+                  <SelectItem key={length} value={String(length)}>
+                    {length === 1 ? "Single games" : `Best of ${length}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isOfflineMode && (
+              <Select value={timeControl} onValueChange={setTimeControl}>
+                <SelectTrigger className="border-2 border-game-secondary" aria-label="Time control">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No clock</SelectItem>
+                  {TIME_CONTROLS.map((control, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {formatTimeControl(control)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {isOfflineMode && (
+              <Select value={opponent} onValueChange={(value) => setOpponent(value as Opponent)}>
+                <SelectTrigger className="border-2 border-game-secondary" aria-label="Opponent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="bot">Play the computer</SelectItem>
+                  <SelectItem value="local">Play another tab on this device</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {isOfflineMode && opponent === "bot" && (
+              <Select value={difficulty} onValueChange={(value) => setDifficulty(value as Difficulty)}>
+                <SelectTrigger className="border-2 border-game-secondary" aria-label="Bot difficulty">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DIFFICULTIES) as Difficulty[]).map((level) => (
+                    <SelectItem key={level} value={level}>
+                      {DIFFICULTIES[level].label} bot
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
             <div className="flex items-center gap-2">
               <label className="flex items-center gap-2 cursor-pointer">
                 <input 
@@ -83,6 +217,17 @@ export const RoomList: React.FC = () => {
                 />
                 <span>Private Room</span>
               </label>
+              {!isOfflineMode && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input 
+                    type="checkbox" 
+                    checked={rated}
+                    onChange={() => setRated(!rated)} 
+                    className="w-4 h-4 rounded border-2 border-game-secondary text-game-primary focus:ring-game-primary"
+                  />
+                  <span>Rated</span>
+                </label>
+              )}
               <Button 
                 type="submit" 
                 className="ml-auto bg-game-accent hover:bg-game-accent/90"
@@ -100,7 +245,12 @@ export const RoomList: React.FC = () => {
             {rooms
               .filter((room) => !room.isPrivate)
               .map((room) => (
-                <RoomCard key={room.id} room={room} onJoin={() => joinRoom(room.id)} />
+                <RoomCard
+                  key={room.id}
+                  room={room}
+                  onJoin={() => joinRoom(room.id)}
+                  onWatch={canWatch ? () => watchRoom(room.id) : undefined}
+                />
               ))}
             {rooms.filter((room) => !room.isPrivate).length === 0 && (
               <div className="text-center py-8 text-muted-foreground">
@@ -117,32 +267,88 @@ export const RoomList: React.FC = () => {
 interface RoomCardProps {
   room: Room;
   onJoin: () => void;
+  // Offered on full rooms when the transport allows watching
+  onWatch?: () => void;
 }
 
-const RoomCard: React.FC<RoomCardProps> = ({ room, onJoin }) => {
+const RoomCard: React.FC<RoomCardProps> = ({ room, onJoin, onWatch }) => {
+  const { username } = useGame();
+  const unlocked = useAchievements();
+
+  // Servers pass on everyone's badges; offline rooms only know our own
+  const achievementsOf = (player: string) =>
+    room.achievements?.[player] ?? (player === username ? Object.keys(unlocked) : []);
+
   return (
     <div className="flex items-center justify-between p-2 hover:bg-muted/50 rounded-md mb-1">
       <div className="flex gap-2 items-center">
         <div className="font-medium truncate">{room.name}</div>
         {room.isPrivate && <Lock size={16} className="text-muted-foreground" />}
+        {isLocalRoomId(room.id) && (
+          <span className="text-xs text-game-primary whitespace-nowrap">This device</span>
+        )}
+        {room.mode === "ultimate" && (
+          <span className="text-xs text-muted-foreground whitespace-nowrap">Ultimate</span>
+        )}
+        {room.mode !== "ultimate" && room.boardSize && room.boardSize !== 3 && (
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {room.boardSize}×{room.boardSize}, {room.winLength ?? room.boardSize} in a row
+          </span>
+        )}
+        {room.rated && (
+          <span className="text-xs text-game-accent whitespace-nowrap">Rated</span>
+        )}
+        {room.bestOf && (
+          <span className="text-xs text-muted-foreground whitespace-nowrap">Best of {room.bestOf}</span>
+        )}
+        {room.timeControl && (
+          <span className="inline-flex items-center gap-0.5 text-xs text-muted-foreground whitespace-nowrap">
+            <Timer size={12} />
+            {formatTimeControl(room.timeControl)}
+          </span>
+        )}
+        {room.players.length > 0 && (
+          <span className="inline-flex items-center gap-1 text-xs text-muted-foreground truncate">
+            {room.players.map((player, index) => (
+              <React.Fragment key={player}>
+                {index > 0 && <span>vs</span>}
+                <span>{room.ratings?.[player] ? `${player} (${room.ratings[player]})` : player}</span>
+                <AchievementIcons ids={achievementsOf(player)} />
+              </React.Fragment>
+            ))}
+          </span>
+        )}
       </div>
       <div className="flex items-center gap-3">
+        {room.spectators > 0 && (
+          <div className="flex items-center text-sm text-muted-foreground" title="Spectators">
+            <Eye size={14} />
+            <span className="ml-1">{room.spectators}</span>
+          </div>
+        )}
         <div className="flex items-center text-sm text-muted-foreground">
           <Users size={14} /> 
           <span className="ml-1">{room.players.length}/2</span>
         </div>
-        <Button 
-          size="sm"
-          onClick={onJoin}
-          disabled={room.players.length >= 2}
-          variant="outline"
-          className={cn(
-            "h-8 px-2",
-            room.players.length >= 2 && "opacity-50 cursor-not-allowed"
-          )}
-        >
-          {room.players.length >= 2 ? "Full" : "Join"}
-        </Button>
+        {room.players.length >= 2 && onWatch ? (
+          <Button size="sm" onClick={onWatch} variant="outline" className="h-8 px-2 gap-1">
+            <Eye size={14} />
+            Watch
+          </Button>
+        ) : (
+          <Button 
+            size="sm"
+            onClick={onJoin}
+            disabled={room.players.length >= 2}
+            variant="outline"
+            className={cn(
+              "h-8 px-2",
+              room.players.length >= 2 && "opacity-50 cursor-not-allowed"
+            )}
+          >
+            {room.players.length >= 2 ? "Full" : "Join"}
+          </Button>
+        )}
       </div>
     </div>
   );
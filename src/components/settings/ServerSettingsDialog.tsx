@@ -0,0 +1,172 @@
+import React, { useState } from "react";
+import { useServerConfig } from "@/hooks/use-server-config";
+import serverConfig, { isValidServerUrl, parseServerList, probeServer, ServerProbe } from "@/services/serverConfig";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw, Server, Trash2 } from "lucide-react";
+
+// RadioGroup values cannot be null
+const AUTOMATIC = "automatic";
+
+interface ServerSettingsDialogProps {
+  // Called after the settings were saved, e.g. to reconnect with them
+  onSaved?: () => void;
+}
+
+export const ServerSettingsDialog: React.FC<ServerSettingsDialogProps> = ({ onSaved }) => {
+  const config = useServerConfig();
+  const [open, setOpen] = useState(false);
+  const [servers, setServers] = useState<string[]>([]);
+  const [pinned, setPinned] = useState<string | null>(null);
+  const [newServer, setNewServer] = useState("");
+  const [probes, setProbes] = useState<Record<string, ServerProbe>>({});
+  const [probing, setProbing] = useState(false);
+
+  const probeAll = (urls: string[]) => {
+    setProbing(true);
+    Promise.all(urls.map(probeServer))
+      .then((results) => setProbes(Object.fromEntries(results.map((probe) => [probe.url, probe]))))
+      .finally(() => setProbing(false));
+  };
+
+  // Edit a copy so closing the dialog discards the changes
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) return;
+
+    setServers(config.servers);
+    setPinned(config.pinned);
+    setNewServer("");
+    setProbes({});
+    probeAll(config.servers);
+  };
+
+  const newServerUrl = parseServerList(newServer)[0] ?? "";
+  const canAdd = isValidServerUrl(newServerUrl) && !servers.includes(newServerUrl);
+
+  const handleAddServer = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+
+    setServers([...servers, newServerUrl]);
+    setNewServer("");
+    probeServer(newServerUrl).then((probe) => setProbes((current) => ({ ...current, [probe.url]: probe })));
+  };
+
+  const handleRemoveServer = (url: string) => {
+    setServers(servers.filter((server) => server !== url));
+    if (pinned === url) setPinned(null);
+  };
+
+  const handleSave = () => {
+    serverConfig.setServers(servers, pinned);
+    setOpen(false);
+    onSaved?.();
+  };
+
+  const handleReset = () => {
+    serverConfig.reset();
+    setOpen(false);
+    onSaved?.();
+  };
+
+  const describeProbe = (url: string) => {
+    const probe = probes[url];
+    if (!probe) return probing ? "Checking…" : "";
+    return probe.reachable ? `${probe.latency} ms` : "Unreachable";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2" title="Server settings">
+          <Server size={14} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Game Servers</DialogTitle>
+          <DialogDescription>
+            The fastest reachable server is used unless you pin one. Changes apply the next time you connect.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={pinned ?? AUTOMATIC}
+          onValueChange={(value) => setPinned(value === AUTOMATIC ? null : value)}
+          className="gap-3"
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value={AUTOMATIC} id="server-automatic" />
+            <Label htmlFor="server-automatic">Automatic (lowest latency)</Label>
+          </div>
+          {servers.map((url, index) => (
+            <div key={url} className="flex items-center gap-2">
+              <RadioGroupItem value={url} id={`server-${index}`} />
+              <Label htmlFor={`server-${index}`} className="flex-1 truncate font-mono text-xs" title={url}>
+                {url}
+                {url === config.active && <span className="ml-2 font-sans text-green-600">last used</span>}
+              </Label>
+              <span
+                className={`text-xs w-20 text-right ${probes[url]?.reachable === false ? "text-red-500" : "text-muted-foreground"}`}
+              >
+                {describeProbe(url)}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => handleRemoveServer(url)}
+                title="Remove server"
+              >
+                <Trash2 size={14} />
+              </Button>
+            </div>
+          ))}
+          {servers.length === 0 && (
+            <p className="text-sm text-muted-foreground">No servers configured: the game will start in offline mode.</p>
+          )}
+        </RadioGroup>
+
+        <form onSubmit={handleAddServer} className="flex gap-2">
+          <Input
+            placeholder="https://games.example.com"
+            value={newServer}
+            onChange={(e) => setNewServer(e.target.value)}
+            className="flex-1"
+          />
+          <Button type="submit" variant="outline" disabled={!canAdd}>
+            Add
+          </Button>
+        </form>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleReset}>
+              Reset to defaults
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => probeAll(servers)} disabled={probing} title="Check again">
+              {probing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw size={14} />}
+            </Button>
+          </div>
+          <Button onClick={handleSave} className="bg-game-primary hover:bg-game-primary/90">
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ServerSettingsDialog;
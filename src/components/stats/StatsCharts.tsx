@@ -0,0 +1,104 @@
+import React from "react";
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { OpeningCount, OpponentRecord, ResultCounts, WinRatePoint } from "@/stats";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Mark } from "@/engine";
+
+const resultsConfig = {
+  win: { label: "Won", color: "#16a34a" },
+  loss: { label: "Lost", color: "#dc2626" },
+  draw: { label: "Drawn", color: "#9ca3af" },
+} satisfies ChartConfig;
+
+const RESULTS = ["win", "loss", "draw"] as const;
+
+export const ResultsPie: React.FC<{ results: ResultCounts }> = ({ results }) => {
+  const data = RESULTS.map((result) => ({ result, games: results[result], fill: `var(--color-${result})` }));
+
+  return (
+    <ChartContainer config={resultsConfig} className="mx-auto aspect-square max-h-64">
+      <PieChart>
+        <ChartTooltip content={<ChartTooltipContent nameKey="result" hideLabel />} />
+        <Pie data={data} dataKey="games" nameKey="result" innerRadius={50}>
+          {data.map((entry) => (
+            <Cell key={entry.result} fill={entry.fill} />
+          ))}
+        </Pie>
+        <ChartLegend content={<ChartLegendContent nameKey="result" />} />
+      </PieChart>
+    </ChartContainer>
+  );
+};
+
+export const ResultsByMarkChart: React.FC<{ byMark: Record<Mark, ResultCounts> }> = ({ byMark }) => {
+  const data = (["X", "O"] as Mark[]).map((mark) => ({ mark: `Playing ${mark}`, ...byMark[mark] }));
+
+  return (
+    <ChartContainer config={resultsConfig} className="max-h-64 w-full">
+      <BarChart data={data} layout="vertical">
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" allowDecimals={false} />
+        <YAxis type="category" dataKey="mark" width={80} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        {RESULTS.map((result) => (
+          <Bar key={result} dataKey={result} stackId="results" fill={`var(--color-${result})`} />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+const winRateConfig = {
+  winRate: { label: "Win rate (%)", color: "#6D28D9" },
+} satisfies ChartConfig;
+
+export const WinRateChart: React.FC<{ points: WinRatePoint[] }> = ({ points }) => (
+  <ChartContainer config={winRateConfig} className="max-h-64 w-full">
+    <LineChart data={points}>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="day" tickMargin={8} />
+      <YAxis domain={[0, 100]} unit="%" width={48} />
+      <ChartTooltip content={<ChartTooltipContent />} />
+      <Line dataKey="winRate" type="monotone" stroke="var(--color-winRate)" strokeWidth={2} dot={points.length < 30} />
+    </LineChart>
+  </ChartContainer>
+);
+
+const openingsConfig = {
+  games: { label: "Games", color: "#6D28D9" },
+} satisfies ChartConfig;
+
+export const OpeningsChart: React.FC<{ openings: OpeningCount[] }> = ({ openings }) => (
+  <ChartContainer config={openingsConfig} className="max-h-64 w-full">
+    <BarChart data={openings}>
+      <CartesianGrid vertical={false} />
+      <XAxis dataKey="opening" tickMargin={8} />
+      <YAxis allowDecimals={false} width={32} />
+      <ChartTooltip content={<ChartTooltipContent />} />
+      <Bar dataKey="games" fill="var(--color-games)" radius={4} />
+    </BarChart>
+  </ChartContainer>
+);
+
+export const OpponentsChart: React.FC<{ opponents: OpponentRecord[] }> = ({ opponents }) => (
+  <ChartContainer config={resultsConfig} className="max-h-80 w-full">
+    <BarChart data={opponents} layout="vertical">
+      <CartesianGrid horizontal={false} />
+      <XAxis type="number" allowDecimals={false} />
+      <YAxis type="category" dataKey="opponent" width={100} />
+      <ChartTooltip content={<ChartTooltipContent />} />
+      <ChartLegend content={<ChartLegendContent />} />
+      {RESULTS.map((result) => (
+        <Bar key={result} dataKey={result} stackId="results" fill={`var(--color-${result})`} />
+      ))}
+    </BarChart>
+  </ChartContainer>
+);
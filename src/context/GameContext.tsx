@@ -1,68 +1,104 @@
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
-import socketService, { GameState, Message, Room } from "@/services/socketService";
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from "react";
+import socketService, {
+  AnyGameState,
+  ConnectionStatus,
+  Message,
+  Room,
+  RoomAck,
+  RoomOptions,
+} from "@/services/socketService";
+import offlineTransport from "@/services/offlineTransport";
+import peerTransport from "@/services/peerTransport";
+import type { BotStatus, GameTransport, RoomTransport } from "@/services/gameTransport";
+import matchHistory, { MatchRecord, MatchRecorder } from "@/services/matchHistory";
+import achievements from "@/services/achievements";
+import { useAchievements } from "@/hooks/use-achievements";
 import { useToast } from "@/hooks/use-toast";
-import { v4 as uuidv4 } from "uuid";
+import { BotSettings } from "@/ai";
+import {
+  DEFAULT_BOARD_CONFIG,
+  IllegalMoveError,
+  Mark,
+  Move,
+  playMove,
+  ProposalKind,
+  reconcileState,
+  syncClock,
+} from "@/engine";
 
 interface GameContextProps {
   username: string | null;
   setUsername: (username: string) => void;
   connectToServer: (username: string) => Promise<boolean>;
   disconnectFromServer: () => void;
-  gameState: GameState | null;
+  gameState: AnyGameState | null;
   rooms: Room[];
   messages: Message[];
   currentRoom: string | null;
-  createRoom: (name: string, isPrivate: boolean) => Promise<unknown>;
-  joinRoom: (id: string) => Promise<unknown>;
+  createRoom: (name: string, isPrivate: boolean, options?: RoomOptions) => Promise<RoomAck>;
+  joinRoom: (id: string) => Promise<RoomAck>;
+  // Follow a room without a seat, where the transport allows it
+  watchRoom: (id: string) => Promise<RoomAck>;
+  canWatch: boolean;
+  // In a room without a seat in its game
+  isSpectator: boolean;
   leaveRoom: () => void;
-  joinRandomGame: () => Promise<unknown>;
-  makeMove: (index: number) => void;
+  joinRandomGame: () => Promise<RoomAck>;
+  makeMove: (move: Move) => void;
   sendMessage: (message: string) => void;
   restartGame: () => void;
+  resign: () => void;
+  // Offer a draw or ask for a takeback; the opponent answers with answerProposal
+  propose: (kind: ProposalKind) => void;
+  answerProposal: (accept: boolean) => void;
   isConnected: boolean;
+  connectionStatus: ConnectionStatus;
+  reconnect: () => Promise<boolean>;
+  isOfflineMode: boolean;
+  // The current room is a direct match, which no one else can join
+  isPeerRoom: boolean;
+  bot: BotSettings | null;
+  isBotThinking: boolean;
+  // Direct matches: each returns the code to hand to the other player
+  hostPeerMatch: (name: string, options?: RoomOptions) => Promise<string>;
+  acceptPeerAnswer: (code: string) => Promise<void>;
+  joinPeerMatch: (inviteCode: string) => Promise<string>;
+  cancelPeerMatch: () => void;
+  // The game that just ended, once it is in the match history
+  lastMatchId: string | null;
 }
 
-const initialGameState: GameState = {
-  board: Array(9).fill(null),
-  currentTurn: "X",
-  gameOver: false,
-  winner: null,
-  winningCombination: null,
-  players: {
-    X: null,
-    O: null,
-  },
-};
+// Tried in order at connect time; the first one that connects carries the lobby
+const TRANSPORTS: GameTransport[] = [socketService, offlineTransport];
 
-// For offline mode - demo rooms
-const demoRooms: Room[] = [
-  { 
-    id: "demo-room-1", 
-    name: "Public Game Room", 
-    players: ["Player1"], 
-    spectators: 0, 
-    isPrivate: false 
-  },
-  { 
-    id: "demo-room-2", 
-    name: "Quick Match", 
-    players: ["Player2", "Player3"], 
-    spectators: 1, 
-    isPrivate: false 
-  }
-];
+// A state from the room's authority, checked against the rules and with its clock set to this device's time
+const receiveState = (state: AnyGameState) => syncClock(reconcileState(state), Date.now());
 
 const GameContext = createContext<GameContextProps | undefined>(undefined);
 
 export const GameProvider = ({ children }: { children: ReactNode }) => {
   const [username, setUsernameState] = useState<string | null>(null);
-  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [gameState, setGameState] = useState<AnyGameState | null>(null);
   const [rooms, setRooms] = useState<Room[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
   const [currentRoom, setCurrentRoom] = useState<string | null>(null);
-  const [isOfflineMode, setIsOfflineMode] = useState(false);
+  // The lobby's transport, and the one carrying the current room (a direct match has its own)
+  const [transport, setTransport] = useState<GameTransport>(socketService);
+  const [roomTransport, setRoomTransport] = useState<RoomTransport | null>(null);
+  const [botStatus, setBotStatus] = useState<BotStatus>({ bot: null, thinking: false });
+  const [lastMatchId, setLastMatchId] = useState<string | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(socketService.connectionStatus);
   const { toast } = useToast();
+  // Read by the resume handler, which is registered once and would otherwise see a stale room
+  const currentRoomRef = useRef(currentRoom);
+  currentRoomRef.current = currentRoom;
+  const recorderRef = useRef(new MatchRecorder());
+  const unlockedAchievements = useAchievements();
+
+  const isOfflineMode = transport.kind === "offline";
+  const isPeerRoom = roomTransport?.kind === "peer";
+  const isSpectator = Boolean(currentRoom && gameState && username !== gameState.players.X && username !== gameState.players.O);
 
   // Set username and store in localStorage
   const setUsername = (name: string) => {
@@ -70,149 +106,129 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
     localStorage.setItem("tictactoe_username", name);
   };
 
-  // Connect to socket server
-  const connectToServer = (username: string): Promise<boolean> => {
-    return socketService
-      .connect(username)
-      .then((success) => {
-        setUsername(username);
-        
-        if (success) {
-          setIsOfflineMode(false);
-          // Get initial room list
-          socketService.getRoomList().then((rooms) => {
-            setRooms(rooms as Room[]);
-          });
-          return true;
-        } else {
-          // Set up offline mode with demo data
-          setIsOfflineMode(true);
-          setRooms(demoRooms);
-          return false;
-        }
-      })
-      .catch((error) => {
-        console.error("Failed to connect:", error);
-        setIsOfflineMode(true);
-        setRooms(demoRooms);
+  // Use the first transport that connects
+  const selectTransport = async (username: string) => {
+    for (const candidate of TRANSPORTS) {
+      const connected = await candidate.connect(username).catch((error) => {
+        console.error(`Failed to connect (${candidate.kind}):`, error);
         return false;
       });
+      if (connected) return candidate;
+    }
+    return null;
+  };
+
+  // Connect to a server, falling back to offline play
+  const connectToServer = (username: string): Promise<boolean> => {
+    return selectTransport(username).then((selected) => {
+      setUsername(username);
+      if (!selected) return false;
+
+      setTransport(selected);
+      // Get initial room list. On failure the lobby keeps what it had until the next room_list.
+      selected.getRoomList().then(
+        (rooms) => {
+          setRooms(rooms);
+        },
+        (error) => {
+          toast({
+            title: "Could not load rooms",
+            description: String(error || "The room list could not be loaded"),
+            variant: "destructive",
+          });
+        },
+      );
+      return selected.kind === "server";
+    });
   };
 
   // Disconnect from socket server
   const disconnectFromServer = () => {
-    socketService.disconnect();
+    transport.disconnect();
+    peerTransport.disconnect();
+    setTransport(socketService);
+    setRoomTransport(null);
     setGameState(null);
     setCurrentRoom(null);
     setRooms([]);
     setMessages([]);
     setUsernameState(null);
-    setIsOfflineMode(false);
   };
 
-  // Create a new room
-  const createRoom = (name: string, isPrivate: boolean) => {
-    if (isOfflineMode) {
-      // Simulate room creation in offline mode
-      const newRoomId = `room-${Date.now()}`;
-      const newRoom: Room = {
-        id: newRoomId,
-        name,
-        players: [username || "You"],
-        spectators: 0,
-        isPrivate
-      };
-      
-      setRooms(prev => [...prev, newRoom]);
-      setCurrentRoom(newRoomId);
-      
-      // Create initial game state
-      setGameState({
-        ...initialGameState,
-        players: {
-          X: username,
-          O: null
-        }
-      });
-      
-      return Promise.resolve({ roomId: newRoomId, success: true });
+  // Reconnect after the connection was lost for good; the session resumes the room
+  const reconnect = () => socketService.reconnect();
+
+  // Settle into a room once the transport confirms it
+  const enterRoom = (via: RoomTransport) => (response: RoomAck) => {
+    if (response.success && response.roomId) {
+      setRoomTransport(via);
+      setCurrentRoom(response.roomId);
     }
-    
-    return socketService.createRoom(name, isPrivate).then((response: any) => {
-      if (response.roomId) {
-        setCurrentRoom(response.roomId);
-      }
-      return response;
+    return response;
+  };
+
+  // Both sides of a direct match enter the room once the other player is seated
+  const enterPeerRoom = (response: RoomAck) => {
+    setMessages([]);
+    enterRoom(peerTransport)(response);
+  };
+
+  const handleFailedPeerMatch = (error: unknown) => {
+    // Closing the dialog cancels on purpose; anything else is worth telling
+    if (error === "Cancelled") return;
+    toast({
+      title: "Direct match failed",
+      description: String(error || "The connection could not be established"),
+      variant: "destructive",
     });
   };
 
+  const hostPeerMatch = (name: string, options: RoomOptions = DEFAULT_BOARD_CONFIG) => {
+    peerTransport.connect(username);
+    return peerTransport.createRoom(name, false, options).then(({ code, joined }) => {
+      joined.then(enterPeerRoom, handleFailedPeerMatch);
+      return code;
+    });
+  };
+
+  const acceptPeerAnswer = (code: string) => peerTransport.acceptAnswer(code);
+
+  const joinPeerMatch = (inviteCode: string) => {
+    peerTransport.connect(username);
+    return peerTransport.joinRoom(inviteCode).then(({ code, joined }) => {
+      joined.then(enterPeerRoom, handleFailedPeerMatch);
+      return code;
+    });
+  };
+
+  // Abandon a match that has not started yet
+  const cancelPeerMatch = () => {
+    if (!isPeerRoom) peerTransport.leaveRoom();
+  };
+
+  // Create a new room
+  const createRoom = (name: string, isPrivate: boolean, options: RoomOptions = DEFAULT_BOARD_CONFIG) => {
+    setMessages([]);
+    return transport.createRoom(name, isPrivate, options).then(enterRoom(transport));
+  };
+
   // Join an existing room
   const joinRoom = (id: string) => {
-    if (isOfflineMode) {
-      // Simulate joining room in offline mode
-      const roomToJoin = rooms.find(r => r.id === id);
-      
-      if (!roomToJoin) {
-        return Promise.reject("Room not found");
-      }
-      
-      if (roomToJoin.players.length >= 2) {
-        return Promise.reject("Room is full");
-      }
-      
-      // Update rooms list with joined room
-      const updatedRooms = rooms.map(r => {
-        if (r.id === id) {
-          return {
-            ...r,
-            players: [...r.players, username || "You"]
-          };
-        }
-        return r;
-      });
-      
-      setRooms(updatedRooms);
-      setCurrentRoom(id);
-      
-      // Create initial game state
-      setGameState({
-        ...initialGameState,
-        players: {
-          X: roomToJoin.players[0],
-          O: username
-        }
-      });
-      
-      // Add welcome message
-      const welcomeMessage: Message = {
-        id: uuidv4(),
-        sender: "System",
-        text: `Welcome to the game room!`,
-        timestamp: Date.now()
-      };
-      
-      setMessages([welcomeMessage]);
-      
-      return Promise.resolve({ success: true });
-    }
-    
-    return socketService.joinRoom(id).then((response) => {
-      setCurrentRoom(id);
-      return response;
-    });
+    setMessages([]);
+    return transport.joinRoom(id).then(enterRoom(transport));
+  };
+
+  // Watch a room without taking a seat
+  const watchRoom = (id: string) => {
+    if (!transport.watchRoom) return Promise.reject("Watching needs a game server");
+    setMessages([]);
+    return transport.watchRoom(id).then(enterRoom(transport));
   };
 
   // Leave the current room
   const leaveRoom = () => {
-    if (isOfflineMode) {
-      // Simulate leaving room in offline mode
-      setCurrentRoom(null);
-      setGameState(null);
-      setMessages([]);
-      return;
-    }
-    
-    socketService.leaveRoom();
+    roomTransport?.leaveRoom();
+    setRoomTransport(null);
     setCurrentRoom(null);
     setGameState(null);
     setMessages([]);
@@ -220,208 +236,142 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
 
   // Join a random game
   const joinRandomGame = () => {
-    if (isOfflineMode) {
-      // Find an available room or create one
-      const availableRoom = rooms.find(r => !r.isPrivate && r.players.length < 2);
-      
-      if (availableRoom) {
-        return joinRoom(availableRoom.id);
-      } else {
-        return createRoom("Quick Game", false);
-      }
-    }
-    
-    return socketService.joinRandomGame().then((response: any) => {
-      if (response.roomId) {
-        setCurrentRoom(response.roomId);
-      }
-      return response;
-    });
+    setMessages([]);
+    return transport.joinRandomGame().then(enterRoom(transport));
   };
 
   // Make a move in the game
-  const makeMove = (index: number) => {
-    if (isOfflineMode) {
-      // Simulate making a move in offline mode
-      if (!gameState) return;
-      
-      // Check if the cell is already occupied or game is over
-      if (gameState.board[index] || gameState.gameOver) {
+  const makeMove = (move: Move) => {
+    if (!gameState || !roomTransport || isSpectator) return;
+
+    // Every transport gets the move through the engine first, so an illegal move never leaves the client
+    const mark: Mark = gameState.players.X === username ? "X" : "O";
+
+    try {
+      playMove(gameState, move, mark);
+    } catch (error) {
+      if (error instanceof IllegalMoveError) {
+        console.warn("Rejected move:", error.message);
         return;
       }
-      
-      const newBoard = [...gameState.board];
-      newBoard[index] = gameState.currentTurn;
-      
-      // Check for win or draw
-      const winner = checkWinner(newBoard);
-      const isDraw = !winner && newBoard.every(cell => cell !== null);
-      
-      // Update game state
-      setGameState({
-        ...gameState,
-        board: newBoard,
-        currentTurn: gameState.currentTurn === "X" ? "O" : "X",
-        gameOver: winner !== null || isDraw,
-        winner: winner ? gameState.players[gameState.currentTurn] : null,
-        winningCombination: winner,
-      });
-      
-      // Simulate bot response in 1 second if playing as X
-      if (!winner && !isDraw && gameState.currentTurn === "X" && !gameState.players.O) {
-        setTimeout(() => {
-          const emptyCells = newBoard
-            .map((cell, idx) => cell === null ? idx : -1)
-            .filter(idx => idx !== -1);
-            
-          if (emptyCells.length > 0) {
-            const randomIndex = emptyCells[Math.floor(Math.random() * emptyCells.length)];
-            makeMove(randomIndex);
-          }
-        }, 1000);
-      }
-      
-      return;
+      throw error;
     }
-    
-    socketService.makeMove(index);
-  };
 
-  // Check for a winner
-  const checkWinner = (board: (string | null)[]): number[] | null => {
-    const lines = [
-      [0, 1, 2],
-      [3, 4, 5],
-      [6, 7, 8],
-      [0, 3, 6],
-      [1, 4, 7],
-      [2, 5, 8],
-      [0, 4, 8],
-      [2, 4, 6],
-    ];
-    
-    for (const line of lines) {
-      const [a, b, c] = line;
-      if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-        return line;
-      }
-    }
-    
-    return null;
+    roomTransport.makeMove(move);
   };
 
   // Send a chat message
   const sendMessage = (message: string) => {
-    if (isOfflineMode) {
-      // Simulate sending a message in offline mode
-      const newMessage: Message = {
-        id: uuidv4(),
-        sender: username || "You",
-        text: message,
-        timestamp: Date.now()
-      };
-      
-      setMessages(prev => [...prev, newMessage]);
-      
-      // Simulate bot response after 1-2 seconds
-      setTimeout(() => {
-        const botResponses = [
-          "I see what you mean.",
-          "Interesting move!",
-          "Let me think about that.",
-          "Good game so far!",
-          "I'm enjoying this match.",
-          "Your strategy is interesting.",
-          "Let's have a good game!",
-        ];
-        
-        const botMessage: Message = {
-          id: uuidv4(),
-          sender: gameState?.players.X === username ? 
-            (gameState?.players.O || "Opponent") : 
-            (gameState?.players.X || "Opponent"),
-          text: botResponses[Math.floor(Math.random() * botResponses.length)],
-          timestamp: Date.now()
-        };
-        
-        setMessages(prev => [...prev, botMessage]);
-      }, Math.random() * 1000 + 1000);
-      
-      return;
-    }
-    
-    socketService.sendMessage(message);
+    roomTransport?.sendMessage(message);
   };
 
   // Restart the game
   const restartGame = () => {
-    if (isOfflineMode) {
-      // Simulate restarting the game in offline mode
-      setGameState({
-        ...initialGameState,
-        players: gameState?.players || { X: username, O: null }
-      });
-      
-      // Add system message about restart
-      const restartMessage: Message = {
-        id: uuidv4(),
-        sender: "System",
-        text: "Game has been restarted.",
-        timestamp: Date.now()
-      };
-      
-      setMessages(prev => [...prev, restartMessage]);
-      
-      return;
-    }
-    
-    socketService.restartGame();
+    roomTransport?.restartGame();
+  };
+
+  // Only players can give up or make offers; the room's authority checks the rest
+  const resign = () => {
+    if (!isSpectator) roomTransport?.resign();
   };
 
-  // Set up socket event listeners
+  const propose = (kind: ProposalKind) => {
+    if (!isSpectator) roomTransport?.propose(kind);
+  };
+
+  const answerProposal = (accept: boolean) => {
+    if (!isSpectator) roomTransport?.answerProposal(accept);
+  };
+
+  // Check for stored username
   useEffect(() => {
-    if (isOfflineMode) return;
-    
-    // Check for stored username
     const storedUsername = localStorage.getItem("tictactoe_username");
     if (storedUsername) {
       setUsernameState(storedUsername);
     }
+  }, []);
 
-    const gameStateUnsubscribe = socketService.onGameState((state) => {
-      setGameState(state);
-    });
+  // Room events come from the lobby's transport and, during a direct match, from that one too
+  useEffect(() => {
+    const sources = [...new Set<RoomTransport>([transport, roomTransport ?? transport])];
+    const unsubscribers = sources.flatMap((source) => [
+      source.onGameState((state) => setGameState(receiveState(state))),
+      source.onMessage((message) => setMessages((prev) => [...prev, message])),
+      source.onPlayerJoined((username) => {
+        toast({
+          title: "Player joined",
+          description: `${username} has joined the game`,
+        });
+      }),
+      source.onPlayerLeft((username) => {
+        toast({
+          title: "Player left",
+          description: `${username} has left the game`,
+        });
+      }),
+    ]);
+    unsubscribers.push(transport.onRoomList(setRooms));
+    if (transport.onBotStatus) unsubscribers.push(transport.onBotStatus(setBotStatus));
 
-    const roomListUnsubscribe = socketService.onRoomList((list) => {
-      setRooms(list);
-    });
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [toast, transport, roomTransport]);
 
-    const messageUnsubscribe = socketService.onMessage((message) => {
-      setMessages((prev) => [...prev, message]);
-    });
+  // Back from a dropped connection (or a reload): restore the room wholesale from the server
+  useEffect(() => {
+    return socketService.onResume((response) => {
+      if (response.success && response.roomId) {
+        setRoomTransport(socketService);
+        setCurrentRoom(response.roomId);
+        setGameState(response.state ? receiveState(response.state) : null);
+        setMessages(response.messages ?? []);
+        return;
+      }
 
-    const playerJoinedUnsubscribe = socketService.onPlayerJoined((username) => {
+      if (!currentRoomRef.current) return;
+      setRoomTransport(null);
+      setCurrentRoom(null);
+      setGameState(null);
+      setMessages([]);
       toast({
-        title: "Player joined",
-        description: `${username} has joined the game`,
+        title: "Could not rejoin the room",
+        description: response.error || "The room is no longer available",
+        variant: "destructive",
       });
     });
+  }, [toast]);
 
-    const playerLeftUnsubscribe = socketService.onPlayerLeft((username) => {
-      toast({
-        title: "Player left",
-        description: `${username} has left the game`,
-      });
-    });
+  useEffect(() => socketService.onStatusChange(setConnectionStatus), []);
 
-    return () => {
-      gameStateUnsubscribe?.();
-      roomListUnsubscribe?.();
-      messageUnsubscribe?.();
-      playerJoinedUnsubscribe?.();
-      playerLeftUnsubscribe?.();
-    };
-  }, [toast, isOfflineMode]);
+  // Keep every game that reaches a result, then see what it unlocked
+  useEffect(() => {
+    const room = currentRoom ? { id: currentRoom, name: rooms.find((r) => r.id === currentRoom)?.name ?? null } : null;
+    const recorded = recorderRef.current.observe(gameState, room, username);
+    if (recorded) {
+      const finished: MatchRecord = botStatus.bot ? { ...recorded, botDifficulty: botStatus.bot.difficulty } : recorded;
+      matchHistory
+        .save(finished)
+        .then((saved) => {
+          if (saved) setLastMatchId(finished.id);
+          // Streaks look back over the whole history, which may not have been read yet
+          if (!matchHistory.getSnapshot().loaded) return matchHistory.load();
+        })
+        .then(() => {
+          achievements.evaluate(finished, matchHistory.getSnapshot().matches).forEach((achievement) => {
+            toast({
+              title: `Achievement unlocked: ${achievement.name}`,
+              description: achievement.description,
+            });
+          });
+        });
+    } else if (!gameState?.gameOver) {
+      setLastMatchId(null);
+    }
+  }, [gameState, currentRoom, rooms, username, botStatus.bot, toast]);
+
+  // The server shows our badges to other players in the lobby
+  useEffect(() => {
+    if (connectionStatus === "connected") socketService.setAchievements(Object.keys(unlockedAchievements));
+  }, [connectionStatus, unlockedAchievements]);
 
   return (
     <GameContext.Provider
@@ -436,12 +386,29 @@ export const GameProvider = ({ children }: { children: ReactNode }) => {
         currentRoom,
         createRoom,
         joinRoom,
+        watchRoom,
+        canWatch: Boolean(transport.watchRoom),
+        isSpectator,
         leaveRoom,
         joinRandomGame,
         makeMove,
         sendMessage,
         restartGame,
+        resign,
+        propose,
+        answerProposal,
         isConnected: socketService.isConnected || isOfflineMode,
+        connectionStatus,
+        reconnect,
+        isOfflineMode,
+        isPeerRoom,
+        bot: botStatus.bot,
+        isBotThinking: botStatus.thinking,
+        hostPeerMatch,
+        acceptPeerAnswer,
+        joinPeerMatch,
+        cancelPeerMatch,
+        lastMatchId,
       }}
     >
       {children}
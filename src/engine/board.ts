@@ -0,0 +1,77 @@
+import { BoardConfig, Cell, Mark } from "./types";
+
+export const MIN_BOARD_SIZE = 3;
+export const MAX_BOARD_SIZE = 15;
+export const MIN_WIN_LENGTH = 3;
+
+export const DEFAULT_BOARD_CONFIG: BoardConfig = { boardSize: 3, winLength: 3 };
+
+// Sensible K for an N×N board: full rows on small boards, four in a row on medium ones, Gomoku's five beyond that
+export const defaultWinLength = (boardSize: number) => {
+  if (boardSize <= 4) return boardSize;
+  return boardSize < 8 ? 4 : 5;
+};
+
+// Row, column offsets for the four line directions: across, down, and both diagonals
+const DIRECTIONS: Array<[number, number]> = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [1, -1],
+];
+
+export const isValidBoardConfig = ({ boardSize, winLength }: BoardConfig) =>
+  Number.isInteger(boardSize) &&
+  Number.isInteger(winLength) &&
+  boardSize >= MIN_BOARD_SIZE &&
+  boardSize <= MAX_BOARD_SIZE &&
+  winLength >= MIN_WIN_LENGTH &&
+  winLength <= boardSize;
+
+// States from older servers carry no config; a square board of N cells is then N-in-a-row
+export const boardConfigOf = (state: { board: Cell[] } & Partial<BoardConfig>): BoardConfig => {
+  const boardSize = state.boardSize ?? Math.round(Math.sqrt(state.board.length));
+  return { boardSize, winLength: state.winLength ?? boardSize };
+};
+
+// Collect the run of `mark` passing through `index` along one direction
+const runThrough = (board: Cell[], boardSize: number, index: number, mark: Mark, [dr, dc]: [number, number]) => {
+  const row = Math.floor(index / boardSize);
+  const col = index % boardSize;
+  const run = [index];
+
+  for (const sign of [-1, 1]) {
+    let r = row + dr * sign;
+    let c = col + dc * sign;
+    while (r >= 0 && r < boardSize && c >= 0 && c < boardSize && board[r * boardSize + c] === mark) {
+      if (sign < 0) run.unshift(r * boardSize + c);
+      else run.push(r * boardSize + c);
+      r += dr * sign;
+      c += dc * sign;
+    }
+  }
+
+  return run;
+};
+
+// Winning line through a single cell, useful right after a move was placed there
+export const findLineThrough = (board: Cell[], { boardSize, winLength }: BoardConfig, index: number): number[] | null => {
+  const mark = board[index];
+  if (!mark) return null;
+
+  for (const direction of DIRECTIONS) {
+    const run = runThrough(board, boardSize, index, mark, direction);
+    if (run.length >= winLength) return run;
+  }
+
+  return null;
+};
+
+export const findWinningLine = (board: Cell[], config: BoardConfig): number[] | null => {
+  for (let index = 0; index < board.length; index++) {
+    const line = findLineThrough(board, config, index);
+    if (line) return line;
+  }
+
+  return null;
+};
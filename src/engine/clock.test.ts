@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  AnyGameState,
+  clockDeadline,
+  createClock,
+  createState,
+  GameState,
+  isValidTimeControl,
+  playMove,
+  pressClock,
+  runClock,
+  startClock,
+  syncClock,
+  TimeControl,
+  timeLeft,
+} from "./index";
+
+const START = 1_000_000;
+
+const timed = (control: TimeControl, players: GameState["players"] = { X: "alice", O: "bob" }): AnyGameState => ({
+  ...createState("classic", players),
+  clock: createClock(control),
+});
+
+const clockOf = (state: AnyGameState) => {
+  if (!state.clock) throw new Error("Expected a timed game");
+  return state.clock;
+};
+
+// What the server does with a move made at `now`: charge the mover, play, press the clock
+const moveAt = (state: AnyGameState, move: number, now: number) => {
+  const charged = runClock(state, now);
+  return pressClock(playMove(charged, move), charged.currentTurn, now);
+};
+
+describe("isValidTimeControl", () => {
+  it.each([
+    { control: { initial: 60_000, increment: 0 }, valid: true },
+    { control: { initial: 30_000, increment: 0, perMove: true }, valid: true },
+    { control: { initial: 5_000, increment: 0 }, valid: false },
+    { control: { initial: 2 * 60 * 60_000, increment: 0 }, valid: false },
+    { control: { initial: 60_000, increment: -1 }, valid: false },
+    { control: { initial: 60_000.5, increment: 0 }, valid: false },
+  ])("treats $control as valid: $valid", ({ control, valid }) => {
+    expect(isValidTimeControl(control)).toBe(valid);
+  });
+});
+
+describe("startClock", () => {
+  it("waits for both seats", () => {
+    const state = startClock(timed({ initial: 60_000, increment: 0 }, { X: "alice", O: null }), START);
+    expect(clockOf(state).runningSince).toBeNull();
+    expect(clockDeadline(state)).toBeNull();
+  });
+
+  it("runs the side to move's clock once both are seated", () => {
+    const state = startClock(timed({ initial: 60_000, increment: 0 }), START);
+    expect(clockDeadline(state)).toBe(START + 60_000);
+    expect(timeLeft(state, "X", START + 15_000)).toBe(45_000);
+    expect(timeLeft(state, "O", START + 15_000)).toBe(60_000);
+  });
+});
+
+describe("runClock and pressClock", () => {
+  it.each([
+    { name: "charges the mover and adds the increment", control: { initial: 60_000, increment: 2_000 }, left: 52_000 },
+    { name: "charges the mover with no increment", control: { initial: 60_000, increment: 0 }, left: 50_000 },
+    { name: "gives a fresh allowance with per-move clocks", control: { initial: 30_000, increment: 0, perMove: true }, left: 30_000 },
+  ])("$name", ({ control, left }) => {
+    const state = moveAt(startClock(timed(control), START), 4, START + 10_000);
+    expect(clockOf(state).remaining.X).toBe(left);
+    expect(clockOf(state).runningSince).toBe(START + 10_000);
+    expect(state.currentTurn).toBe("O");
+  });
+
+  it("ends the game when the side to move runs out", () => {
+    const state = runClock(startClock(timed({ initial: 60_000, increment: 0 }), START), START + 60_000);
+    expect(state).toMatchObject({ gameOver: true, winner: "bob", endReason: "timeout" });
+    expect(clockOf(state).remaining.X).toBe(0);
+    expect(clockOf(state).runningSince).toBeNull();
+  });
+
+  it("leaves untimed games alone", () => {
+    const state = createState("classic", { X: "alice", O: "bob" });
+    expect(runClock(state, START)).toBe(state);
+    expect(timeLeft(state, "X", START)).toBeNull();
+  });
+});
+
+describe("syncClock", () => {
+  it("moves a running clock onto local time", () => {
+    const running = startClock(timed({ initial: 60_000, increment: 0 }), START);
+    const received = { ...running, clock: { ...clockOf(running), serverTime: START + 5_000 } };
+
+    // This device's clock is 100 s ahead of the server's
+    const synced = syncClock(received, START + 105_000);
+    expect(timeLeft(synced, "X", START + 105_000)).toBe(55_000);
+  });
+
+  it("leaves clocks without a server time alone", () => {
+    const running = startClock(timed({ initial: 60_000, increment: 0 }), START);
+    expect(syncClock(running, START + 50_000)).toBe(running);
+  });
+});
@@ -0,0 +1,91 @@
+import { AnyGameState, Clock, Mark, TimeControl } from "./types";
+import { otherMark } from "./rules";
+import { endGame } from "./modes";
+
+// Chess clocks for timed games. Only the side to move's clock runs, and only once both seats are
+// taken. Every function takes the current time, so the authority decides what "now" is.
+
+const MIN_INITIAL = 10_000;
+const MAX_INITIAL = 60 * 60_000;
+const MAX_INCREMENT = 60_000;
+
+// Offered when creating a room
+export const TIME_CONTROLS: TimeControl[] = [
+  { initial: 60_000, increment: 0 },
+  { initial: 3 * 60_000, increment: 2_000 },
+  { initial: 5 * 60_000, increment: 0 },
+  { initial: 10 * 60_000, increment: 5_000 },
+  { initial: 30_000, increment: 0, perMove: true },
+];
+
+export const isValidTimeControl = (control: TimeControl) =>
+  Number.isInteger(control.initial) &&
+  Number.isInteger(control.increment) &&
+  control.initial >= MIN_INITIAL &&
+  control.initial <= MAX_INITIAL &&
+  control.increment >= 0 &&
+  control.increment <= MAX_INCREMENT;
+
+// "3+2" (minutes plus seconds added per move), or "30s per move"
+export const formatTimeControl = ({ initial, increment, perMove }: TimeControl) =>
+  perMove ? `${initial / 1000}s per move` : `${initial / 60_000}+${increment / 1000}`;
+
+export const createClock = (control: TimeControl): Clock => ({
+  control,
+  remaining: { X: control.initial, O: control.initial },
+  runningSince: null,
+});
+
+// Milliseconds `mark` has left at `now`
+export const timeLeft = (state: AnyGameState, mark: Mark, now: number) => {
+  const { clock } = state;
+  if (!clock) return null;
+
+  const { runningSince } = clock;
+  const elapsed = runningSince !== null && state.currentTurn === mark && !state.gameOver ? now - runningSince : 0;
+  return Math.max(0, clock.remaining[mark] - elapsed);
+};
+
+// When the side to move runs out of time if they do not move, or null while no clock runs
+export const clockDeadline = (state: AnyGameState) => {
+  const { clock } = state;
+  if (!clock || clock.runningSince === null || state.gameOver) return null;
+  return clock.runningSince + clock.remaining[state.currentTurn];
+};
+
+// Starts the side to move's clock, once there is an opponent
+export const startClock = (state: AnyGameState, now: number): AnyGameState => {
+  const { clock } = state;
+  if (!clock || clock.runningSince !== null || state.gameOver || !state.players.X || !state.players.O) return state;
+  return { ...state, clock: { ...clock, runningSince: now } };
+};
+
+// Charges the side to move for the time since their clock started. Running out loses the game.
+export const runClock = (state: AnyGameState, now: number): AnyGameState => {
+  const { clock } = state;
+  if (!clock || clock.runningSince === null || state.gameOver) return state;
+
+  const mark = state.currentTurn;
+  const left = Math.max(0, clock.remaining[mark] - (now - clock.runningSince));
+  const charged = { ...state, clock: { ...clock, remaining: { ...clock.remaining, [mark]: left }, runningSince: now } };
+  return left > 0 ? charged : endGame(charged, state.players[otherMark(mark)], "timeout");
+};
+
+// After `mark` has moved (in a state already charged with runClock): their increment, or a fresh
+// allowance with per-move clocks, and the opponent's clock starts unless the game is over
+export const pressClock = (state: AnyGameState, mark: Mark, now: number): AnyGameState => {
+  const { clock } = state;
+  if (!clock) return state;
+
+  const { control, remaining } = clock;
+  const left = control.perMove ? control.initial : remaining[mark] + control.increment;
+  const pressed = { ...state, clock: { ...clock, remaining: { ...remaining, [mark]: left }, runningSince: null } };
+  return startClock(pressed, now);
+};
+
+// Moves a clock received from elsewhere onto this device's time, so timeLeft works with Date.now()
+export const syncClock = (state: AnyGameState, now: number): AnyGameState => {
+  const { clock } = state;
+  if (!clock?.serverTime || clock.runningSince === null) return state;
+  return { ...state, clock: { ...clock, runningSince: clock.runningSince + (now - clock.serverTime), serverTime: now } };
+};
@@ -0,0 +1,64 @@
+// Base class for every move the rules refuse, so callers can catch them all at once
+export class IllegalMoveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IllegalMoveError";
+  }
+}
+
+export class CellOccupiedError extends IllegalMoveError {
+  constructor(public readonly index: number) {
+    super(`Cell ${index} is already occupied`);
+    this.name = "CellOccupiedError";
+  }
+}
+
+export class WrongTurnError extends IllegalMoveError {
+  constructor(public readonly expected: string, public readonly actual: string) {
+    super(`It is ${expected}'s turn, not ${actual}'s`);
+    this.name = "WrongTurnError";
+  }
+}
+
+export class GameOverError extends IllegalMoveError {
+  constructor() {
+    super("The game is already over");
+    this.name = "GameOverError";
+  }
+}
+
+export class InvalidCellError extends IllegalMoveError {
+  constructor(public readonly index: number) {
+    super(`Cell ${index} is not on the board`);
+    this.name = "InvalidCellError";
+  }
+}
+
+export class WrongBoardError extends IllegalMoveError {
+  constructor(public readonly expected: number, public readonly actual: number) {
+    super(`This move must be played in sub-board ${expected}, not ${actual}`);
+    this.name = "WrongBoardError";
+  }
+}
+
+export class BoardClosedError extends IllegalMoveError {
+  constructor(public readonly board: number) {
+    super(`Sub-board ${board} is already decided`);
+    this.name = "BoardClosedError";
+  }
+}
+
+export class NoOpponentError extends IllegalMoveError {
+  constructor() {
+    super("There is no opponent yet");
+    this.name = "NoOpponentError";
+  }
+}
+
+// An offer, or an answer to one, that does not fit the game as it stands
+export class ProposalError extends IllegalMoveError {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProposalError";
+  }
+}
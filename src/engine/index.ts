@@ -0,0 +1,9 @@
+export * from "./types";
+export * from "./errors";
+export * from "./board";
+export * from "./rules";
+export * from "./ultimate";
+export * from "./modes";
+export * from "./offers";
+export * from "./clock";
+export * from "./series";
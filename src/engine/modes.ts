@@ -0,0 +1,88 @@
+import { AnyGameState, BoardConfig, Cell, EndReason, GameMode, GameState, Mark, Move, UltimateGameState } from "./types";
+import { InvalidCellError } from "./errors";
+import { boardConfigOf, DEFAULT_BOARD_CONFIG } from "./board";
+import { applyMove, createGameState, legalMoves, otherMark, withResult } from "./rules";
+import { applyUltimateMove, createUltimateState, legalUltimateMoves, withUltimateResult } from "./ultimate";
+
+// Entry points that work for every game mode, for callers that hold an AnyGameState
+
+export const isUltimateState = (state: AnyGameState): state is UltimateGameState => state.mode === "ultimate";
+
+export const createState = (
+  mode: GameMode,
+  players: GameState["players"] = { X: null, O: null },
+  config: BoardConfig = DEFAULT_BOARD_CONFIG,
+): AnyGameState => (mode === "ultimate" ? createUltimateState(players) : createGameState(players, config));
+
+// A fresh game with the same players and settings
+export const restartState = (state: AnyGameState): AnyGameState =>
+  isUltimateState(state)
+    ? createUltimateState(state.players)
+    : createGameState(state.players, boardConfigOf(state));
+
+export const legalMovesOf = (state: AnyGameState): Move[] =>
+  isUltimateState(state) ? legalUltimateMoves(state) : legalMoves(state);
+
+export const playMove = (previous: AnyGameState, move: Move, mark: Mark = previous.currentTurn): AnyGameState => {
+  // A move answers any offer still on the table
+  const state = previous.proposal ? { ...previous, proposal: null } : previous;
+  if (isUltimateState(state)) {
+    if (typeof move === "number") throw new InvalidCellError(move);
+    return applyUltimateMove(state, move, mark);
+  }
+
+  if (typeof move !== "number") throw new InvalidCellError(move.board * 9 + move.cell);
+  return applyMove(state, move, mark);
+};
+
+// A game decided by something other than the board: a resignation, an agreement or the clock
+export const endGame = (state: AnyGameState, winner: string | null, endReason: EndReason): AnyGameState => ({
+  ...state,
+  ...(isUltimateState(state) ? { activeBoard: null } : {}),
+  gameOver: true,
+  winner,
+  winningCombination: null,
+  endReason,
+  proposal: null,
+  ...(state.clock ? { clock: { ...state.clock, runningSince: null } } : {}),
+});
+
+// Re-check a state received from elsewhere against the rules
+export const reconcileState = (state: AnyGameState): AnyGameState =>
+  isUltimateState(state) ? withUltimateResult(state) : withResult(state);
+
+// Every cell with the move that fills it, in board order
+const cellsOf = (state: AnyGameState): { move: Move; cell: Cell }[] =>
+  isUltimateState(state)
+    ? state.boards.flatMap((board, boardIndex) => board.map((cell, index) => ({ move: { board: boardIndex, cell: index }, cell })))
+    : state.board.map((cell, index) => ({ move: index, cell }));
+
+// The moves that lead from one state to a later one, for callers that only ever see states.
+// Returns null when `next` cannot follow `previous` (a restart, another board). When several
+// moves were missed, marks alternate from the player to move; within a mark, board order is
+// assumed.
+export const movesBetween = (previous: AnyGameState, next: AnyGameState): { move: Move; mark: Mark }[] | null => {
+  if (isUltimateState(previous) !== isUltimateState(next)) return null;
+
+  const before = cellsOf(previous);
+  const after = cellsOf(next);
+  if (before.length !== after.length) return null;
+
+  const placed: Record<Mark, Move[]> = { X: [], O: [] };
+  for (let i = 0; i < after.length; i++) {
+    const { move, cell } = after[i];
+    if (before[i].cell === cell) continue;
+    if (before[i].cell !== null || cell === null) return null;
+    placed[cell].push(move);
+  }
+
+  const moves: { move: Move; mark: Mark }[] = [];
+  let mark = previous.currentTurn;
+  while (placed.X.length + placed.O.length > 0) {
+    const move = placed[mark].shift();
+    if (move === undefined) return null;
+    moves.push({ move, mark });
+    mark = otherMark(mark);
+  }
+  return moves;
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  AnyGameState,
+  answerProposal,
+  createState,
+  GameOverError,
+  GameState,
+  Mark,
+  NoOpponentError,
+  playMove,
+  ProposalError,
+  ProposalKind,
+  propose,
+  resign,
+} from "./index";
+
+const players = { X: "alice", O: "bob" };
+
+// The state and the history an authority would keep after playing `moves`
+const playAll = (moves: number[], seated: GameState["players"] = players) =>
+  moves.reduce(
+    ({ state, history }, move) => ({ state: playMove(state, move), history: [...history, state] }),
+    { state: createState("classic", seated), history: [] as AnyGameState[] },
+  );
+
+const offered = (kind: ProposalKind, from: Mark, moves = [4, 0]) => {
+  const { state, history } = playAll(moves);
+  return { state: propose(state, kind, from, history), history };
+};
+
+const cells = (state: AnyGameState) => (state.mode === "ultimate" ? "" : state.board.map((cell) => cell ?? ".").join(""));
+
+describe("resign", () => {
+  it("gives the game to the other side", () => {
+    const { state } = playAll([4]);
+    expect(resign(state, "X")).toMatchObject({ gameOver: true, winner: "bob", endReason: "resigned", winningCombination: null });
+  });
+
+  it.each([
+    { name: "after the game is over", moves: [0, 3, 1, 4, 2], seated: players, error: GameOverError },
+    { name: "without an opponent", moves: [], seated: { X: "alice", O: null }, error: NoOpponentError },
+  ])("is refused $name", ({ moves, seated, error }) => {
+    expect(() => resign(playAll(moves, seated).state, "X")).toThrow(error);
+  });
+});
+
+describe("propose", () => {
+  it("puts the offer on the table", () => {
+    expect(offered("draw", "X").state.proposal).toEqual({ kind: "draw", from: "X" });
+  });
+
+  it.each<{ name: string; setup: () => { state: AnyGameState; history: AnyGameState[] }; kind: ProposalKind; from: Mark }>([
+    { name: "a second offer while one is waiting", setup: () => offered("draw", "X"), kind: "takeback", from: "O" },
+    {
+      name: "the same offer straight after it was declined",
+      setup: () => {
+        const { state, history } = offered("draw", "X");
+        return { state: answerProposal(state, "O", false, history).state, history };
+      },
+      kind: "draw",
+      from: "X",
+    },
+    { name: "a takeback before the player has moved", setup: () => playAll([4]), kind: "takeback", from: "O" },
+  ])("refuses $name", ({ setup, kind, from }) => {
+    const { state, history } = setup();
+    expect(() => propose(state, kind, from, history)).toThrow(ProposalError);
+  });
+
+  it("is cleared by the next move, after which a declined offer can be made again", () => {
+    const { state, history } = offered("draw", "X");
+    const declined = answerProposal(state, "O", false, history).state;
+    const moved = playMove(declined, 8);
+    expect(moved.proposal).toBeNull();
+    expect(() => propose(moved, "draw", "X", [...history, declined])).not.toThrow();
+  });
+});
+
+describe("answerProposal", () => {
+  it("ends the game as an agreed draw", () => {
+    const { state, history } = offered("draw", "X");
+    expect(answerProposal(state, "O", true, history).state).toMatchObject({
+      gameOver: true,
+      winner: null,
+      endReason: "agreed-draw",
+      proposal: null,
+    });
+  });
+
+  it.each<{ name: string; moves: number[]; from: Mark; board: string; turn: Mark; kept: number }>([
+    // X asks after O replied: both moves go and it is X's move again
+    { name: "the proposer's move and the reply to it", moves: [4, 0], from: "X", board: ".........", turn: "X", kept: 0 },
+    // O asks while X is to move: only O's latest move goes
+    { name: "only the proposer's latest move", moves: [4, 0, 8], from: "O", board: "....X....", turn: "O", kept: 1 },
+  ])("takes back $name", ({ moves, from, board, turn, kept }) => {
+    const { state, history } = offered("takeback", from, moves);
+    const answered = answerProposal(state, from === "X" ? "O" : "X", true, history);
+    expect(cells(answered.state)).toBe(board);
+    expect(answered.state.currentTurn).toBe(turn);
+    expect(answered.state.proposal).toBeNull();
+    expect(answered.history).toHaveLength(kept);
+  });
+
+  it("marks a declined offer", () => {
+    const { state, history } = offered("takeback", "X");
+    expect(answerProposal(state, "O", false, history).state.proposal).toEqual({ kind: "takeback", from: "X", declined: true });
+  });
+
+  it.each([
+    { name: "the proposer's own offer", setup: () => offered("draw", "X"), mark: "X" as Mark },
+    { name: "a game with no offer", setup: () => playAll([4]), mark: "O" as Mark },
+  ])("refuses an answer to $name", ({ setup, mark }) => {
+    const { state, history } = setup();
+    expect(() => answerProposal(state, mark, true, history)).toThrow(ProposalError);
+  });
+});
@@ -0,0 +1,63 @@
+import { AnyGameState, Mark, ProposalKind } from "./types";
+import { GameOverError, NoOpponentError, ProposalError } from "./errors";
+import { otherMark } from "./rules";
+import { endGame } from "./modes";
+
+// Ways a game changes besides a move: resigning, and offers the other player accepts or
+// declines. Takebacks need the states before each move, oldest first, which whoever holds the
+// authoritative state keeps alongside it as `history`.
+
+const checkPlaying = (state: AnyGameState, mark: Mark) => {
+  if (state.gameOver) throw new GameOverError();
+  if (!state.players[otherMark(mark)]) throw new NoOpponentError();
+};
+
+// Where a takeback by `mark` goes back to: the state before their latest move, which also undoes
+// any reply to it. -1 when they have not moved yet.
+const takebackIndex = (history: AnyGameState[], mark: Mark) =>
+  history.map((state) => state.currentTurn).lastIndexOf(mark);
+
+export const resign = (state: AnyGameState, mark: Mark): AnyGameState => {
+  checkPlaying(state, mark);
+  return endGame(state, state.players[otherMark(mark)], "resigned");
+};
+
+// One offer at a time, and a declined one cannot be repeated before the next move
+export const propose = (state: AnyGameState, kind: ProposalKind, mark: Mark, history: AnyGameState[]): AnyGameState => {
+  checkPlaying(state, mark);
+
+  const { proposal } = state;
+  if (proposal && !proposal.declined) throw new ProposalError("An offer is already waiting for an answer");
+  if (proposal?.kind === kind && proposal.from === mark) {
+    throw new ProposalError("That offer was just declined; wait for the next move");
+  }
+  if (kind === "takeback" && takebackIndex(history, mark) === -1) {
+    throw new ProposalError("There is no move to take back");
+  }
+
+  return { ...state, proposal: { kind, from: mark } };
+};
+
+// Only the player the offer was made to can answer it. Accepting a takeback shortens the history.
+export const answerProposal = (
+  state: AnyGameState,
+  mark: Mark,
+  accept: boolean,
+  history: AnyGameState[],
+): { state: AnyGameState; history: AnyGameState[] } => {
+  const { proposal } = state;
+  if (!proposal || proposal.declined || proposal.from === mark) {
+    throw new ProposalError("There is no offer to answer");
+  }
+  if (state.gameOver) throw new GameOverError();
+
+  if (!accept) return { state: { ...state, proposal: { ...proposal, declined: true } }, history };
+  if (proposal.kind === "draw") return { state: endGame(state, null, "agreed-draw"), history };
+
+  const index = takebackIndex(history, proposal.from);
+  // The players are whoever sits there now, and time spent stays spent
+  return {
+    state: { ...history[index], players: state.players, clock: state.clock, proposal: null },
+    history: history.slice(0, index),
+  };
+};
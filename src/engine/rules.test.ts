@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyMove,
+  BoardConfig,
+  Cell,
+  CellOccupiedError,
+  createGameState,
+  GameOverError,
+  GameState,
+  getResult,
+  InvalidCellError,
+  legalMoves,
+  WrongTurnError,
+} from "./index";
+
+// "XO." rows, read left to right and top to bottom
+const board = (rows: string): Cell[] =>
+  [...rows.replace(/\s+/g, "")].map((cell) => (cell === "." ? null : (cell as Cell)));
+
+const players = { X: "alice", O: "bob" };
+
+const playAll = (moves: number[], config?: BoardConfig): GameState =>
+  moves.reduce((state, move) => applyMove(state, move), createGameState(players, config));
+
+describe("getResult", () => {
+  it.each([
+    { name: "an empty board", rows: "... ... ...", expected: { status: "playing" } },
+    { name: "a row", rows: "XXX OO. ...", expected: { status: "won", mark: "X", line: [0, 1, 2] } },
+    { name: "a column", rows: "OX. OX. O.X", expected: { status: "won", mark: "O", line: [0, 3, 6] } },
+    { name: "a diagonal", rows: "X.O .XO ..X", expected: { status: "won", mark: "X", line: [0, 4, 8] } },
+    { name: "an anti-diagonal", rows: "X.O XO. O..", expected: { status: "won", mark: "O", line: [2, 4, 6] } },
+    { name: "a full board without a line", rows: "XOX XOO OXX", expected: { status: "draw" } },
+  ])("reads $name", ({ rows, expected }) => {
+    expect(getResult(board(rows))).toEqual(expected);
+  });
+
+  it.each([
+    { name: "three in a row on a 4×4 board", rows: "XXX. OO.. .... ....", winLength: 3, status: "won" },
+    { name: "three of four on a 4×4 board", rows: "XXX. OO.. .... ....", winLength: 4, status: "playing" },
+    { name: "a diagonal off the main one", rows: ".X.. ..X. ...X OO..", winLength: 3, status: "won" },
+  ])("finds $name", ({ rows, winLength, status }) => {
+    expect(getResult(board(rows), { boardSize: 4, winLength }).status).toBe(status);
+  });
+});
+
+describe("legalMoves", () => {
+  it.each([
+    { name: "every cell at the start", moves: [], expected: [0, 1, 2, 3, 4, 5, 6, 7, 8] },
+    { name: "the empty cells", moves: [4, 0, 8], expected: [1, 2, 3, 5, 6, 7] },
+    { name: "nothing once the game is over", moves: [0, 3, 1, 4, 2], expected: [] },
+  ])("lists $name", ({ moves, expected }) => {
+    expect(legalMoves(playAll(moves))).toEqual(expected);
+  });
+});
+
+describe("applyMove", () => {
+  it("places the mark and passes the turn", () => {
+    const state = playAll([4]);
+    expect(state.board[4]).toBe("X");
+    expect(state.currentTurn).toBe("O");
+    expect(state.gameOver).toBe(false);
+  });
+
+  it("ends the game on a line, naming the winner", () => {
+    const state = playAll([0, 3, 1, 4, 2]);
+    expect(state).toMatchObject({ gameOver: true, winner: "alice", winningCombination: [0, 1, 2] });
+  });
+
+  it("ends the game on a full board as a draw", () => {
+    const state = playAll([0, 1, 2, 4, 3, 5, 7, 6, 8]);
+    expect(state).toMatchObject({ gameOver: true, winner: null, winningCombination: null });
+  });
+
+  it("plays to the configured win length", () => {
+    const state = playAll([0, 4, 1, 5, 2], { boardSize: 4, winLength: 3 });
+    expect(state.winningCombination).toEqual([0, 1, 2]);
+  });
+
+  it.each([
+    { name: "an occupied cell", moves: [4], move: 4, mark: "O" as const, error: CellOccupiedError },
+    { name: "the wrong side", moves: [], move: 0, mark: "O" as const, error: WrongTurnError },
+    { name: "a cell off the board", moves: [], move: 9, mark: "X" as const, error: InvalidCellError },
+    { name: "a fractional cell", moves: [], move: 1.5, mark: "X" as const, error: InvalidCellError },
+    { name: "a move after the end", moves: [0, 3, 1, 4, 2], move: 8, mark: "O" as const, error: GameOverError },
+  ])("refuses $name", ({ moves, move, mark, error }) => {
+    expect(() => applyMove(playAll(moves), move, mark)).toThrow(error);
+  });
+
+  it("leaves the previous state untouched", () => {
+    const before = playAll([4]);
+    applyMove(before, 0);
+    expect(before.board[0]).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { BoardConfig, Cell, GameResult, GameState, Mark } from "./types";
+import { boardConfigOf, DEFAULT_BOARD_CONFIG, findWinningLine, isValidBoardConfig } from "./board";
+import { CellOccupiedError, GameOverError, InvalidCellError, WrongTurnError } from "./errors";
+
+export const otherMark = (mark: Mark): Mark => (mark === "X" ? "O" : "X");
+
+export const createGameState = (
+  players: GameState["players"] = { X: null, O: null },
+  config: BoardConfig = DEFAULT_BOARD_CONFIG,
+): GameState => {
+  if (!isValidBoardConfig(config)) {
+    throw new RangeError(`Unsupported board: ${config.boardSize}×${config.boardSize}, ${config.winLength} in a row`);
+  }
+
+  return {
+    mode: "classic",
+    board: Array(config.boardSize * config.boardSize).fill(null),
+    boardSize: config.boardSize,
+    winLength: config.winLength,
+    currentTurn: "X",
+    gameOver: false,
+    winner: null,
+    winningCombination: null,
+    players,
+  };
+};
+
+// Inspect a board and report whether someone has won or the board is full
+export const getResult = (board: Cell[], config: BoardConfig = boardConfigOf({ board })): GameResult => {
+  const line = findWinningLine(board, config);
+  if (line) {
+    // A winning line never starts on an empty cell
+    return { status: "won", mark: board[line[0]] as Mark, line };
+  }
+
+  if (board.every((cell) => cell !== null)) {
+    return { status: "draw" };
+  }
+
+  return { status: "playing" };
+};
+
+export const legalMoves = (state: GameState): number[] => {
+  if (state.gameOver) return [];
+
+  return state.board
+    .map((cell, index) => (cell === null ? index : -1))
+    .filter((index) => index !== -1);
+};
+
+// Returns the next state, or throws an IllegalMoveError subclass describing why the move was refused
+export const applyMove = (state: GameState, index: number, mark: Mark = state.currentTurn): GameState => {
+  if (state.gameOver) {
+    throw new GameOverError();
+  }
+
+  if (mark !== state.currentTurn) {
+    throw new WrongTurnError(state.currentTurn, mark);
+  }
+
+  if (!Number.isInteger(index) || index < 0 || index >= state.board.length) {
+    throw new InvalidCellError(index);
+  }
+
+  if (state.board[index] !== null) {
+    throw new CellOccupiedError(index);
+  }
+
+  const board = [...state.board];
+  board[index] = mark;
+
+  return withResult({
+    ...state,
+    board,
+    currentTurn: otherMark(mark),
+  });
+};
+
+// Derive gameOver/winner/winningCombination from the board. States that are already over
+// (for example decided by the server) are kept as they are when the board shows no result.
+export const withResult = (state: GameState): GameState => {
+  const config = boardConfigOf(state);
+  const result = getResult(state.board, config);
+
+  switch (result.status) {
+    case "won":
+      return {
+        ...state,
+        ...config,
+        gameOver: true,
+        winner: state.players[result.mark],
+        winningCombination: result.line,
+      };
+    case "draw":
+      return { ...state, ...config, gameOver: true, winner: null, winningCombination: null };
+    default:
+      return { ...state, ...config };
+  }
+};
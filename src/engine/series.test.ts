@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { AnyGameState, createSeries, createState, nextGame, playMove, resign, Series, seriesStanding } from "./index";
+
+const X_WINS = [0, 3, 1, 4, 2];
+const DRAW = [0, 1, 2, 4, 3, 5, 7, 6, 8];
+
+const inSeries = (series: Series, players = { X: "alice", O: "bob" }): AnyGameState => ({
+  ...createState("classic", players),
+  series,
+});
+
+const playAll = (state: AnyGameState, moves: number[]) => moves.reduce((current, move) => playMove(current, move), state);
+
+describe("seriesStanding", () => {
+  it("is null outside a series", () => {
+    expect(seriesStanding(createState("classic", { X: "alice", O: "bob" }))).toBeNull();
+  });
+
+  it.each<{ name: string; bestOf: number; wins: Record<string, number>; draws: number; moves: number[]; played: number; over: boolean; winner: string | null }>([
+    { name: "counts the finished game", bestOf: 3, wins: {}, draws: 0, moves: X_WINS, played: 1, over: false, winner: null },
+    { name: "leaves a game in progress out", bestOf: 3, wins: { alice: 1 }, draws: 0, moves: [4], played: 1, over: false, winner: null },
+    { name: "ends on a majority", bestOf: 3, wins: { alice: 1 }, draws: 0, moves: X_WINS, played: 2, over: true, winner: "alice" },
+    { name: "ends on a majority before every game is played", bestOf: 5, wins: { alice: 2, bob: 0 }, draws: 0, moves: X_WINS, played: 3, over: true, winner: "alice" },
+    { name: "is drawn when the last game levels the score", bestOf: 3, wins: { bob: 1 }, draws: 1, moves: X_WINS, played: 3, over: true, winner: null },
+    { name: "is drawn when level after a drawn last game", bestOf: 3, wins: { alice: 1, bob: 1 }, draws: 0, moves: DRAW, played: 3, over: true, winner: null },
+    { name: "goes to a single win among draws", bestOf: 3, wins: { alice: 1 }, draws: 1, moves: DRAW, played: 3, over: true, winner: "alice" },
+  ])("$name", ({ bestOf, wins, draws, moves, played, over, winner }) => {
+    const state = playAll(inSeries({ ...createSeries(bestOf), wins, draws }), moves);
+    expect(seriesStanding(state)).toMatchObject({ played, over, winner });
+  });
+});
+
+describe("nextGame", () => {
+  it("swaps the seats and carries the score over", () => {
+    const next = nextGame(playAll(inSeries(createSeries(3)), X_WINS));
+    expect(next.players).toEqual({ X: "bob", O: "alice" });
+    expect(next.series).toEqual({ bestOf: 3, number: 1, wins: { alice: 1 }, draws: 0 });
+    expect(next.gameOver).toBe(false);
+    expect(next.currentTurn).toBe("X");
+  });
+
+  it("counts a resignation like any other result", () => {
+    const next = nextGame(resign(playAll(inSeries(createSeries(3)), [4]), "X"));
+    expect(next.series?.wins).toEqual({ bob: 1 });
+  });
+
+  it("starts the next series once one is decided", () => {
+    const decided = playAll(inSeries({ ...createSeries(3), wins: { alice: 1 } }), X_WINS);
+    expect(nextGame(decided).series).toEqual(createSeries(3, 2));
+  });
+
+  it("keeps the seats and the score for a game abandoned halfway", () => {
+    const series = { ...createSeries(3), wins: { alice: 1 } };
+    const next = nextGame(playAll(inSeries(series), [4]));
+    expect(next.players).toEqual({ X: "alice", O: "bob" });
+    expect(next.series).toEqual(series);
+  });
+
+  it("restarts games outside a series in the same seats", () => {
+    const next = nextGame(playAll(createState("classic", { X: "alice", O: "bob" }), X_WINS));
+    expect(next.players).toEqual({ X: "alice", O: "bob" });
+    expect(next.series).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+import { AnyGameState, Series } from "./types";
+import { restartState } from "./modes";
+
+// Best-of-N series. The players swap seats after every finished game, so the first move
+// alternates, and a series ends once someone has won a majority of its games or all of them
+// have been played.
+
+export const SERIES_LENGTHS = [1, 3, 5, 7];
+
+export const isValidSeriesLength = (bestOf: number) => SERIES_LENGTHS.includes(bestOf);
+
+export const createSeries = (bestOf: number, number = 1): Series => ({ bestOf, number, wins: {}, draws: 0 });
+
+// The next series in the same room, e.g. after a player left
+export const nextSeries = (series: Series) => createSeries(series.bestOf, series.number + 1);
+
+export interface SeriesStanding {
+  wins: Record<string, number>;
+  draws: number;
+  played: number;
+  // The series is over; a drawn one has no winner
+  over: boolean;
+  winner: string | null;
+}
+
+// The score with the game on the board counted once it has ended
+export const seriesStanding = (state: AnyGameState): SeriesStanding | null => {
+  const { series, players } = state;
+  if (!series) return null;
+
+  const wins = { ...series.wins };
+  let { draws } = series;
+  if (state.gameOver) {
+    if (state.winner) {
+      wins[state.winner] = (wins[state.winner] ?? 0) + 1;
+    } else {
+      draws++;
+    }
+  }
+
+  const played = Object.values(wins).reduce((total, count) => total + count, 0) + draws;
+  const x = (players.X && wins[players.X]) || 0;
+  const o = (players.O && wins[players.O]) || 0;
+  const needed = Math.floor(series.bestOf / 2) + 1;
+
+  let winner: string | null = null;
+  if (x >= needed || (played >= series.bestOf && x > o)) winner = players.X;
+  if (o >= needed || (played >= series.bestOf && o > x)) winner = players.O;
+  return { wins, draws, played, over: winner !== null || played >= series.bestOf, winner };
+};
+
+// What "Play again" starts. A finished game is added to the score and the players swap seats;
+// once the series is decided the next one begins. A game abandoned halfway does not count.
+export const nextGame = (state: AnyGameState): AnyGameState => {
+  const fresh = restartState(state);
+  const { series } = state;
+  const standing = seriesStanding(state);
+  if (!series || !standing) return fresh;
+  if (!state.gameOver) return { ...fresh, series };
+
+  return {
+    ...fresh,
+    players: { X: state.players.O, O: state.players.X },
+    series: standing.over ? nextSeries(series) : { ...series, wins: standing.wins, draws: standing.draws },
+  };
+};
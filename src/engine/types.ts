@@ -0,0 +1,107 @@
+export type Mark = "X" | "O";
+
+export type Cell = Mark | null;
+
+export type GameMode = "classic" | "ultimate";
+
+// Why a game ended without a line or a full board
+export type EndReason = "resigned" | "agreed-draw" | "timeout";
+
+export type ProposalKind = "draw" | "takeback";
+
+// An offer waiting for the other player's answer; a declined one stays until the next move so
+// its sender can see the answer
+export interface Proposal {
+  kind: ProposalKind;
+  from: Mark;
+  declined?: boolean;
+}
+
+// Milliseconds on each clock at the start, and added after each of a player's moves. Per-move
+// clocks go back to `initial` after every move instead ("30 seconds per move").
+export interface TimeControl {
+  initial: number;
+  increment: number;
+  perMove?: boolean;
+}
+
+export interface Clock {
+  control: TimeControl;
+  // Time each side had left when the clock last stopped or changed hands
+  remaining: Record<Mark, number>;
+  // When the side to move's clock started, or null while it is stopped
+  runningSince: number | null;
+  // The authority's time when it sent the state, so other devices can correct for their own
+  serverTime?: number;
+}
+
+export interface Series {
+  bestOf: number;
+  // Counts the room's series from 1, so each can be told apart
+  number: number;
+  // Games won so far by each player, by name, and games drawn; the game on the board is not
+  // counted until the next one starts
+  wins: Record<string, number>;
+  draws: number;
+}
+
+export interface BoardConfig {
+  boardSize: number;
+  winLength: number;
+}
+
+// Fields every game mode shares, so player lists and results render the same way
+interface BaseGameState {
+  currentTurn: Mark;
+  gameOver: boolean;
+  winner: string | null;
+  winningCombination: number[] | null;
+  players: {
+    X: string | null;
+    O: string | null;
+  };
+  endReason?: EndReason;
+  proposal?: Proposal | null;
+  // Timed games only
+  clock?: Clock;
+  // Games that are part of a best-of-N series
+  series?: Series;
+  // Set by servers for rated rooms; the rules ignore them. ratingChange appears once a rated
+  // game has ended and says how far it moved each side's rating.
+  rated?: boolean;
+  ratings?: { X: number | null; O: number | null };
+  ratingChange?: { X: number; O: number } | null;
+  // Usernames watching the room, from servers that allow it
+  spectators?: string[];
+}
+
+export interface GameState extends BaseGameState, BoardConfig {
+  // Optional because older servers send classic states without a mode
+  mode?: "classic";
+  board: Cell[];
+}
+
+export type SubBoardResult = Mark | "draw" | null;
+
+// Nine 3×3 sub-boards; winningCombination holds the sub-board indices of the winning line
+export interface UltimateGameState extends BaseGameState {
+  mode: "ultimate";
+  boards: Cell[][];
+  boardResults: SubBoardResult[];
+  // Sub-board the player to move is sent to, or null when they may play anywhere
+  activeBoard: number | null;
+}
+
+export type AnyGameState = GameState | UltimateGameState;
+
+export interface UltimateMove {
+  board: number;
+  cell: number;
+}
+
+export type Move = number | UltimateMove;
+
+export type GameResult =
+  | { status: "playing" }
+  | { status: "won"; mark: Mark; line: number[] }
+  | { status: "draw" };
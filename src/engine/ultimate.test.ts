@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyUltimateMove,
+  BoardClosedError,
+  createUltimateState,
+  getUltimateResult,
+  legalUltimateMoves,
+  SubBoardResult,
+  UltimateGameState,
+  WrongBoardError,
+} from "./index";
+
+const players = { X: "alice", O: "bob" };
+
+const playAll = (moves: [number, number][]): UltimateGameState =>
+  moves.reduce((state, [board, cell]) => applyUltimateMove(state, { board, cell }), createUltimateState(players));
+
+// X takes sub-board 0 along its top row, while O's replies keep sending X back there. X's last
+// move points at sub-board 0 itself, which is then decided.
+const X_TAKES_BOARD_0: [number, number][] = [[0, 1], [1, 0], [0, 2], [2, 0], [0, 0]];
+
+describe("getUltimateResult", () => {
+  const results = (cells: string): SubBoardResult[] =>
+    [...cells].map((cell) => (cell === "." ? null : cell === "-" ? "draw" : (cell as SubBoardResult)));
+
+  it.each([
+    { name: "undecided boards", cells: "X.O......", status: "playing" },
+    { name: "a line of won boards", cells: "XXXOO....", status: "won" },
+    { name: "drawn boards breaking a line", cells: "XX-OO-O-X", status: "draw" },
+    { name: "every board decided without a line", cells: "XOX-O-OXX", status: "draw" },
+  ])("reads $name", ({ cells, status }) => {
+    expect(getUltimateResult(results(cells)).status).toBe(status);
+  });
+});
+
+describe("legalUltimateMoves", () => {
+  it("allows any cell at the start", () => {
+    expect(legalUltimateMoves(createUltimateState(players))).toHaveLength(81);
+  });
+
+  it("sends the opponent to the sub-board matching the cell just played", () => {
+    const moves = legalUltimateMoves(playAll([[4, 2]]));
+    expect(new Set(moves.map(({ board }) => board))).toEqual(new Set([2]));
+    expect(moves).toHaveLength(9);
+  });
+
+  it("frees the choice when the matching sub-board is decided", () => {
+    const state = playAll(X_TAKES_BOARD_0);
+    expect(state.activeBoard).toBeNull();
+    expect(legalUltimateMoves(state).every(({ board }) => board !== 0)).toBe(true);
+    expect(legalUltimateMoves(state)).toHaveLength(70);
+  });
+});
+
+describe("applyUltimateMove", () => {
+  it("decides a sub-board when it has a line", () => {
+    const state = playAll(X_TAKES_BOARD_0);
+    expect(state.boardResults).toEqual(["X", null, null, null, null, null, null, null, null]);
+    expect(state.gameOver).toBe(false);
+  });
+
+  it.each([
+    { name: "a move outside the active sub-board", moves: [[4, 2]] as [number, number][], move: { board: 3, cell: 0 }, error: WrongBoardError },
+    { name: "a move in a decided sub-board", moves: X_TAKES_BOARD_0, move: { board: 0, cell: 5 }, error: BoardClosedError },
+  ])("refuses $name", ({ moves, move, error }) => {
+    expect(() => applyUltimateMove(playAll(moves), move)).toThrow(error);
+  });
+});
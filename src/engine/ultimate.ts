@@ -0,0 +1,124 @@
+import { Cell, GameResult, Mark, SubBoardResult, UltimateGameState, UltimateMove } from "./types";
+import { BoardClosedError, CellOccupiedError, GameOverError, InvalidCellError, WrongBoardError, WrongTurnError } from "./errors";
+import { getResult, otherMark } from "./rules";
+
+const SUB_BOARD_CONFIG = { boardSize: 3, winLength: 3 };
+
+const isOnBoard = (index: number) => Number.isInteger(index) && index >= 0 && index < 9;
+
+export const createUltimateState = (
+  players: UltimateGameState["players"] = { X: null, O: null },
+): UltimateGameState => ({
+  mode: "ultimate",
+  boards: Array.from({ length: 9 }, () => Array(9).fill(null)),
+  boardResults: Array(9).fill(null),
+  activeBoard: null,
+  currentTurn: "X",
+  gameOver: false,
+  winner: null,
+  winningCombination: null,
+  players,
+});
+
+const subBoardResult = (cells: Cell[]): SubBoardResult => {
+  const result = getResult(cells, SUB_BOARD_CONFIG);
+  if (result.status === "won") return result.mark;
+  return result.status === "draw" ? "draw" : null;
+};
+
+// The big board wins like a classic board of sub-board winners; it is drawn once every
+// sub-board is decided without such a line
+export const getUltimateResult = (boardResults: SubBoardResult[]): GameResult => {
+  const meta: Cell[] = boardResults.map((result) => (result === "X" || result === "O" ? result : null));
+  const result = getResult(meta, SUB_BOARD_CONFIG);
+
+  if (result.status === "won") return result;
+  if (boardResults.every((boardResult) => boardResult !== null)) return { status: "draw" };
+  return { status: "playing" };
+};
+
+export const legalUltimateMoves = (state: UltimateGameState): UltimateMove[] => {
+  if (state.gameOver) return [];
+
+  const boards = state.activeBoard === null ? [0, 1, 2, 3, 4, 5, 6, 7, 8] : [state.activeBoard];
+  const moves: UltimateMove[] = [];
+
+  for (const board of boards) {
+    if (state.boardResults[board] !== null) continue;
+    state.boards[board].forEach((cell, index) => {
+      if (cell === null) moves.push({ board, cell: index });
+    });
+  }
+
+  return moves;
+};
+
+// Returns the next state, or throws an IllegalMoveError subclass describing why the move was refused
+export const applyUltimateMove = (
+  state: UltimateGameState,
+  move: UltimateMove,
+  mark: Mark = state.currentTurn,
+): UltimateGameState => {
+  if (state.gameOver) {
+    throw new GameOverError();
+  }
+
+  if (mark !== state.currentTurn) {
+    throw new WrongTurnError(state.currentTurn, mark);
+  }
+
+  if (!isOnBoard(move.board) || !isOnBoard(move.cell)) {
+    throw new InvalidCellError(move.board * 9 + move.cell);
+  }
+
+  if (state.activeBoard !== null && move.board !== state.activeBoard) {
+    throw new WrongBoardError(state.activeBoard, move.board);
+  }
+
+  if (state.boardResults[move.board] !== null) {
+    throw new BoardClosedError(move.board);
+  }
+
+  if (state.boards[move.board][move.cell] !== null) {
+    throw new CellOccupiedError(move.board * 9 + move.cell);
+  }
+
+  const boards = state.boards.map((cells, index) => {
+    if (index !== move.board) return cells;
+    const next = [...cells];
+    next[move.cell] = mark;
+    return next;
+  });
+
+  const boardResults = [...state.boardResults];
+  boardResults[move.board] = subBoardResult(boards[move.board]);
+
+  return withUltimateResult({
+    ...state,
+    boards,
+    boardResults,
+    // The cell just played picks the opponent's sub-board, unless that one is already decided
+    activeBoard: boardResults[move.cell] === null ? move.cell : null,
+    currentTurn: otherMark(mark),
+  });
+};
+
+// Derive gameOver/winner/winningCombination from the sub-board results, like withResult does for classic games
+export const withUltimateResult = (state: UltimateGameState): UltimateGameState => {
+  const result = getUltimateResult(state.boardResults);
+
+  switch (result.status) {
+    case "won":
+      return {
+        ...state,
+        gameOver: true,
+        activeBoard: null,
+        winner: state.players[result.mark],
+        winningCombination: result.line,
+      };
+    case "draw":
+      return { ...state, gameOver: true, activeBoard: null, winner: null, winningCombination: null };
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import achievements from "@/services/achievements";
+
+// Achievements unlocked on this device, by id
+export function useAchievements() {
+  return useSyncExternalStore(achievements.subscribe, achievements.getSnapshot);
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import diagnostics from "@/services/diagnostics";
+
+// Payloads rejected by runtime validation, newest first
+export function useDiagnostics() {
+  return useSyncExternalStore(diagnostics.subscribe, diagnostics.getSnapshot);
+}
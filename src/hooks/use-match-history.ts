@@ -0,0 +1,13 @@
+import { useEffect, useSyncExternalStore } from "react";
+import matchHistory from "@/services/matchHistory";
+
+// Finished games stored on this device, newest first. Loaded from IndexedDB on first use.
+export function useMatchHistory() {
+  const snapshot = useSyncExternalStore(matchHistory.subscribe, matchHistory.getSnapshot);
+
+  useEffect(() => {
+    if (!matchHistory.getSnapshot().loaded) matchHistory.load();
+  }, []);
+
+  return snapshot;
+}
@@ -0,0 +1,77 @@
+import { useEffect, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useGame } from "@/context/GameContext";
+
+// The room as the address bar and the game last agreed on it
+interface Synced {
+  url: string | null;
+  room: string | null;
+}
+
+export const roomPath = (roomId: string) => `/room/${encodeURIComponent(roomId)}`;
+
+// Keeps /room/:roomId and the current room in step. Entering or leaving a room from the lobby
+// updates the URL; changing the URL (an invite link, back or forward) joins or leaves the room,
+// once there is a connection to join with.
+export function useRoomUrl() {
+  const { roomId } = useParams();
+  const navigate = useNavigate();
+  const { currentRoom, joinRoom, leaveRoom, isConnected } = useGame();
+  // null until the first run after mounting
+  const synced = useRef<Synced | null>(null);
+  // The room a join was sent for, so re-renders while it is pending do not send another
+  const requested = useRef<string | null>(null);
+
+  // Runs on every render, since the context's actions are new each time; each branch only acts
+  // when something changed since it last agreed
+  useEffect(() => {
+    const url = roomId ?? null;
+    if (url === currentRoom) {
+      synced.current = { url, room: currentRoom };
+      return;
+    }
+
+    let last = synced.current;
+    if (last === null) {
+      // Back from another page while still seated: the plain lobby URL means "the game", so
+      // point it at the room without adding a history entry
+      if (currentRoom && !url) {
+        synced.current = { url: currentRoom, room: currentRoom };
+        navigate(roomPath(currentRoom), { replace: true });
+        return;
+      }
+      last = { url: null, room: currentRoom };
+    }
+
+    if (currentRoom !== last.room) {
+      synced.current = { url: currentRoom, room: currentRoom };
+      if (currentRoom) {
+        navigate(roomPath(currentRoom));
+      } else {
+        // Left with the button: back should not rejoin
+        navigate("/", { replace: true });
+      }
+      return;
+    }
+
+    if (!url) {
+      synced.current = { url: null, room: null };
+      leaveRoom();
+      return;
+    }
+
+    if (!isConnected || requested.current === url) return;
+    requested.current = url;
+    if (currentRoom) leaveRoom();
+    synced.current = { url, room: null };
+    joinRoom(url)
+      .then((response) => {
+        if (!response.success) navigate("/", { replace: true });
+      })
+      // The transport has already told the player why
+      .catch(() => navigate("/", { replace: true }))
+      .finally(() => {
+        requested.current = null;
+      });
+  });
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import serverConfig from "@/services/serverConfig";
+
+// Configured servers, the pinned one and the one last connected to
+export function useServerConfig() {
+  return useSyncExternalStore(serverConfig.subscribe, serverConfig.getSnapshot);
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { formatSquare, gameStates, NotatedGame, NotationError, parseGame, parseSquare, serializeGame } from "./index";
+
+const classic = (overrides: Partial<NotatedGame> = {}): NotatedGame => ({
+  players: { X: "alice", O: "bob" },
+  mode: "classic",
+  boardSize: 3,
+  winLength: 3,
+  result: "X",
+  endReason: null,
+  date: "2026-10-19",
+  moves: [4, 3, 0, 8, 2, 1, 6],
+  ...overrides,
+});
+
+describe("squares", () => {
+  it.each([
+    { game: { mode: "classic" as const, boardSize: 3 }, move: 0, square: "a1" },
+    { game: { mode: "classic" as const, boardSize: 3 }, move: 5, square: "c2" },
+    { game: { mode: "classic" as const, boardSize: 15 }, move: 224, square: "o15" },
+    { game: { mode: "ultimate" as const, boardSize: 3 }, move: { board: 4, cell: 4 }, square: "e5" },
+    { game: { mode: "ultimate" as const, boardSize: 3 }, move: { board: 8, cell: 2 }, square: "i7" },
+  ])("writes $move as $square and reads it back", ({ game, move, square }) => {
+    expect(formatSquare(move, game)).toBe(square);
+    expect(parseSquare(square, game)).toEqual(move);
+  });
+
+  it.each(["d1", "a4", "a0", "b", "11"])("refuses %s on a 3×3 board", (square) => {
+    expect(() => parseSquare(square, { mode: "classic", boardSize: 3 })).toThrow(NotationError);
+  });
+});
+
+describe("serializeGame and parseGame", () => {
+  it.each([
+    { name: "a won classic game", game: classic() },
+    { name: "a larger board", game: classic({ boardSize: 5, winLength: 4, result: null, moves: [12, 0, 24] }) },
+    { name: "an ultimate game", game: classic({ mode: "ultimate", result: null, moves: [{ board: 4, cell: 0 }, { board: 0, cell: 8 }] }) },
+    { name: "a resignation", game: classic({ result: "O", endReason: "resigned", moves: [4, 0] }) },
+    { name: "an agreed draw", game: classic({ result: "draw", endReason: "agreed-draw", moves: [4, 0] }) },
+    { name: "a loss on time", game: classic({ result: "X", endReason: "timeout", moves: [4] }) },
+    { name: "names that need escaping", game: classic({ players: { X: 'say "hi"', O: "back\\slash" } }) },
+  ])("round-trips $name", ({ game }) => {
+    const parsed = parseGame(serializeGame(game));
+    expect(parsed).toEqual(game.mode === "ultimate" ? { ...game, boardSize: 3, winLength: 3 } : game);
+  });
+
+  it("writes the tags and numbered moves", () => {
+    expect(serializeGame(classic({ moves: [4, 0, 8], result: null }))).toBe(
+      ['[X "alice"]', '[O "bob"]', '[Mode "classic"]', '[BoardSize "3"]', '[WinLength "3"]', '[Result "*"]', '[Date "2026-10-19"]', "", "1. b2 a1 2. c3"].join("\n"),
+    );
+  });
+
+  it("reads bare moves with the defaults", () => {
+    expect(parseGame("b2 a1\nc3")).toMatchObject({ mode: "classic", boardSize: 3, winLength: 3, result: null, endReason: null, moves: [4, 0, 8] });
+  });
+
+  it.each([
+    { name: "an empty record", text: "  \n", message: /empty/ },
+    { name: "a broken tag", text: '[Result "X"\nb2', message: /not a valid tag/ },
+    { name: "an unknown mode", text: '[Mode "chess"]', message: /Mode must be/ },
+    { name: "an unsupported board", text: '[BoardSize "3"]\n[WinLength "4"]', message: /not supported/ },
+    { name: "an unknown result", text: '[Result "maybe"]', message: /Result must be/ },
+    { name: "an unknown termination", text: '[Termination "boredom"]', message: /Termination must be/ },
+    { name: "a bad date", text: '[Date "19/10/2026"]', message: /Date must look like/ },
+    { name: "a square off the board", text: "b2 d4", message: /Move 2/ },
+  ])("refuses $name", ({ text, message }) => {
+    expect(() => parseGame(text)).toThrow(message);
+  });
+});
+
+describe("gameStates", () => {
+  it("returns the start and the position after every move", () => {
+    const states = gameStates(classic());
+    expect(states).toHaveLength(8);
+    expect(states[7]).toMatchObject({ gameOver: true, winner: "alice" });
+  });
+
+  it.each([
+    { endReason: "resigned" as const, result: "O" as const, winner: "bob" },
+    { endReason: "agreed-draw" as const, result: "draw" as const, winner: null },
+    { endReason: "timeout" as const, result: "X" as const, winner: "alice" },
+  ])("ends the final position by $endReason", ({ endReason, result, winner }) => {
+    const states = gameStates(classic({ result, endReason, moves: [4, 0] }));
+    expect(states).toHaveLength(3);
+    expect(states[2]).toMatchObject({ gameOver: true, winner, endReason });
+  });
+
+  it.each([
+    { name: "an illegal move", game: classic({ moves: [4, 4] }), message: /Move 2 \(O b2\) is illegal/ },
+    { name: "a result the moves do not reach", game: classic({ result: "O" }), message: /says a win for O/ },
+    { name: "a result for a game still going", game: classic({ moves: [4] }), message: /an unfinished game/ },
+    { name: "a termination after the moves already ended it", game: classic({ endReason: "resigned" }), message: /already end it/ },
+    { name: "a drawn resignation", game: classic({ result: "draw", endReason: "resigned", moves: [4] }), message: /cannot be a draw/ },
+    { name: "a won agreement", game: classic({ result: "X", endReason: "agreed-draw", moves: [4] }), message: /cannot be a win/ },
+  ])("refuses $name", ({ game, message }) => {
+    expect(() => gameStates(game)).toThrow(message);
+  });
+});
@@ -0,0 +1,273 @@
+import {
+  AnyGameState,
+  createState,
+  defaultWinLength,
+  endGame,
+  EndReason,
+  GameMode,
+  GameState,
+  IllegalMoveError,
+  isValidBoardConfig,
+  Mark,
+  Move,
+  otherMark,
+  playMove,
+} from "@/engine";
+import type { MatchRecord } from "@/services/matchHistory";
+import { format } from "date-fns";
+
+// A plain-text game record, small enough to paste into a chat or a bug report:
+//
+//   [X "alice"]
+//   [O "bob"]
+//   [Mode "classic"]
+//   [BoardSize "3"]
+//   [WinLength "3"]
+//   [Result "X"]
+//   [Date "2026-10-19"]
+//
+//   1. b2 a2 2. a1 c1 3. c3
+//
+// Squares are a column letter (a = left) and a row number (1 = top). Ultimate games use the
+// same scheme on the full 9×9 grid, so "e5" is the centre of the centre sub-board. Tags may
+// come in any order and unknown ones are ignored; move numbers are optional. A game that ended
+// before its moves decided it has a Termination tag, such as [Termination "resignation"].
+
+export type NotatedResult = Mark | "draw" | null;
+
+export interface NotatedGame {
+  players: GameState["players"];
+  mode: GameMode;
+  // Classic games only; ultimate boards are always nine 3×3 boards
+  boardSize: number;
+  winLength: number;
+  // Who won, "draw", or null for an unfinished game
+  result: NotatedResult;
+  // How the game ended when no line or full board did
+  endReason: EndReason | null;
+  // yyyy-mm-dd
+  date: string | null;
+  moves: Move[];
+}
+
+export class NotationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotationError";
+  }
+}
+
+const ULTIMATE_SIZE = 9;
+const COLUMNS = "abcdefghijklmnopqrstuvwxyz";
+const TAG = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/;
+const SQUARE = /^([a-z])(\d{1,2})$/;
+const MOVE_NUMBER = /^\d+\.+$/;
+
+// Termination tag values; games decided by their moves leave the tag out
+const TERMINATIONS: Record<EndReason, string> = {
+  resigned: "resignation",
+  "agreed-draw": "agreement",
+  timeout: "time forfeit",
+};
+
+const gridSizeOf = (game: Pick<NotatedGame, "mode" | "boardSize">) =>
+  game.mode === "ultimate" ? ULTIMATE_SIZE : game.boardSize;
+
+// Position on the whole grid; an ultimate move's sub-board picks the 3×3 block
+const toRowColumn = (move: Move, size: number): [number, number] => {
+  if (typeof move === "number") return [Math.floor(move / size), move % size];
+  return [Math.floor(move.board / 3) * 3 + Math.floor(move.cell / 3), (move.board % 3) * 3 + (move.cell % 3)];
+};
+
+const fromRowColumn = (row: number, column: number, mode: GameMode, size: number): Move =>
+  mode === "ultimate"
+    ? { board: Math.floor(row / 3) * 3 + Math.floor(column / 3), cell: (row % 3) * 3 + (column % 3) }
+    : row * size + column;
+
+export const formatSquare = (move: Move, game: Pick<NotatedGame, "mode" | "boardSize">) => {
+  const [row, column] = toRowColumn(move, gridSizeOf(game));
+  return `${COLUMNS[column]}${row + 1}`;
+};
+
+export const parseSquare = (square: string, game: Pick<NotatedGame, "mode" | "boardSize">): Move => {
+  const match = SQUARE.exec(square.toLowerCase());
+  const size = gridSizeOf(game);
+  if (!match) throw new NotationError(`"${square}" is not a square; squares look like b2`);
+
+  const column = COLUMNS.indexOf(match[1]);
+  const row = Number(match[2]) - 1;
+  if (column >= size || row < 0 || row >= size) {
+    throw new NotationError(`${square} is off the ${size}×${size} board`);
+  }
+  return fromRowColumn(row, column, game.mode, size);
+};
+
+const quote = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+const unquote = (value: string) => value.replace(/\\(.)/g, "$1");
+
+export const serializeGame = (game: NotatedGame) => {
+  const tags: [string, string | null][] = [
+    ["X", game.players.X],
+    ["O", game.players.O],
+    ["Mode", game.mode],
+    ...(game.mode === "classic"
+      ? ([
+          ["BoardSize", String(game.boardSize)],
+          ["WinLength", String(game.winLength)],
+        ] as [string, string][])
+      : []),
+    ["Result", game.result ?? "*"],
+    ["Termination", game.endReason ? TERMINATIONS[game.endReason] : null],
+    ["Date", game.date],
+  ];
+
+  const moves = game.moves.map((move, index) => {
+    const square = formatSquare(move, game);
+    return index % 2 === 0 ? `${index / 2 + 1}. ${square}` : square;
+  });
+
+  return [
+    ...tags.filter(([, value]) => value !== null).map(([name, value]) => `[${name} ${quote(value)}]`),
+    "",
+    moves.join(" "),
+  ].join("\n");
+};
+
+const parseResult = (value: string): NotatedResult => {
+  if (value === "X" || value === "O") return value;
+  if (value.toLowerCase() === "draw") return "draw";
+  if (value === "*") return null;
+  throw new NotationError(`Result must be X, O, draw or *, not "${value}"`);
+};
+
+const parseTermination = (value: string): EndReason | null => {
+  if (value.toLowerCase() === "normal") return null;
+  const reasons = Object.keys(TERMINATIONS) as EndReason[];
+  const reason = reasons.find((candidate) => TERMINATIONS[candidate] === value.toLowerCase());
+  if (!reason) {
+    const names = ["normal", ...Object.values(TERMINATIONS)];
+    throw new NotationError(`Termination must be ${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}, not "${value}"`);
+  }
+  return reason;
+};
+
+const parseNumberTag = (name: string, value: string) => {
+  const number = Number(value);
+  if (!Number.isInteger(number)) throw new NotationError(`${name} must be a whole number, not "${value}"`);
+  return number;
+};
+
+// Reads the text only; call gameStates to check the moves against the rules
+export const parseGame = (text: string): NotatedGame => {
+  const tags = new Map<string, string>();
+  const tokens: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    if (line.startsWith("[")) {
+      const match = TAG.exec(line);
+      if (!match) throw new NotationError(`Line ${index + 1} is not a valid tag: ${line}`);
+      tags.set(match[1], unquote(match[2]));
+      return;
+    }
+    tokens.push(...line.split(/\s+/).filter((token) => !MOVE_NUMBER.test(token)));
+  });
+
+  if (tags.size === 0 && tokens.length === 0) throw new NotationError("The game record is empty");
+
+  const modeTag = tags.get("Mode") ?? "classic";
+  if (modeTag !== "classic" && modeTag !== "ultimate") {
+    throw new NotationError(`Mode must be classic or ultimate, not "${modeTag}"`);
+  }
+  const mode: GameMode = modeTag;
+
+  const boardSize = tags.has("BoardSize") ? parseNumberTag("BoardSize", tags.get("BoardSize")) : 3;
+  const winLength = tags.has("WinLength") ? parseNumberTag("WinLength", tags.get("WinLength")) : defaultWinLength(boardSize);
+  if (mode === "classic" && !isValidBoardConfig({ boardSize, winLength })) {
+    throw new NotationError(`A ${boardSize}×${boardSize} board with ${winLength} in a row is not supported`);
+  }
+
+  const date = tags.get("Date") ?? null;
+  if (date !== null && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new NotationError(`Date must look like 2024-01-31, not "${date}"`);
+  }
+
+  const game = { mode, boardSize, winLength };
+  return {
+    ...game,
+    players: { X: tags.get("X") || null, O: tags.get("O") || null },
+    result: parseResult(tags.get("Result") ?? "*"),
+    endReason: parseTermination(tags.get("Termination") ?? "normal"),
+    date,
+    moves: tokens.map((token, index) => {
+      try {
+        return parseSquare(token, game);
+      } catch (error) {
+        throw new NotationError(`Move ${index + 1}: ${(error as Error).message}`);
+      }
+    }),
+  };
+};
+
+// Read off the marks rather than the names, which may repeat or be missing. A game is always
+// won by the move that ends it.
+const resultOf = (state: AnyGameState): NotatedResult => {
+  if (!state.gameOver) return null;
+  return state.winner === null ? "draw" : otherMark(state.currentTurn);
+};
+
+const describeResult = (result: NotatedResult) =>
+  result === null ? "an unfinished game" : result === "draw" ? "a draw" : `a win for ${result}`;
+
+// The position before the first move and after each one. Throws a NotationError naming the
+// first illegal move, or when the result and termination tags disagree with how the moves end.
+export const gameStates = (game: NotatedGame): AnyGameState[] => {
+  // Wins are recorded by name, so nameless sides stand in as their mark
+  const players = { X: game.players.X ?? "X", O: game.players.O ?? "O" };
+  const states = [createState(game.mode, players, { boardSize: game.boardSize, winLength: game.winLength })];
+
+  game.moves.forEach((move, index) => {
+    const previous = states[states.length - 1];
+    try {
+      states.push(playMove(previous, move));
+    } catch (error) {
+      if (!(error instanceof IllegalMoveError)) throw error;
+      throw new NotationError(`Move ${index + 1} (${previous.currentTurn} ${formatSquare(move, game)}) is illegal: ${error.message}`);
+    }
+  });
+
+  // A resignation, an agreed draw or a flag fall stops the game before its moves decide it; the
+  // result tag says who came out of it with the win
+  const last = states[states.length - 1];
+  if (game.endReason) {
+    const termination = TERMINATIONS[game.endReason];
+    if (last.gameOver) {
+      throw new NotationError(`The record says the game ended by ${termination}, but the moves already end it`);
+    }
+    if (game.result === null || (game.result === "draw") !== (game.endReason === "agreed-draw")) {
+      throw new NotationError(`A game ended by ${termination} cannot be ${describeResult(game.result)}`);
+    }
+    states[states.length - 1] = endGame(last, game.result === "draw" ? null : players[game.result], game.endReason);
+    return states;
+  }
+
+  const ended = resultOf(last);
+  if (game.result !== null && game.result !== ended) {
+    throw new NotationError(`The record says ${describeResult(game.result)}, but the moves end in ${describeResult(ended)}`);
+  }
+  return states;
+};
+
+// A game from the match history
+export const notateMatch = (match: MatchRecord): NotatedGame => ({
+  players: { ...match.players },
+  mode: match.mode,
+  boardSize: match.boardSize ?? 3,
+  winLength: match.winLength ?? 3,
+  result: match.result === "draw" ? "draw" : match.result === "win" ? match.mark : otherMark(match.mark),
+  endReason: match.endReason ?? null,
+  date: format(match.endedAt, "yyyy-MM-dd"),
+  moves: match.moves.map(({ move }) => move),
+});
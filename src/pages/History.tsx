@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { format, formatDistanceStrict } from "date-fns";
+import { useMatchHistory } from "@/hooks/use-match-history";
+import {
+  filterMatches,
+  groupBySeries,
+  MatchFilters,
+  MatchRecord,
+  MatchResult,
+  NO_MATCH_FILTERS,
+  SeriesRecord,
+} from "@/services/matchHistory";
+import HistoryFilters from "@/components/history/HistoryFilters";
+import ImportGameDialog from "@/components/replay/ImportGameDialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, Layers, Loader2, Play } from "lucide-react";
+
+const RESULT_BADGES: Record<MatchResult, { label: string; className: string }> = {
+  win: { label: "Won", className: "bg-green-100 text-green-700 hover:bg-green-100" },
+  loss: { label: "Lost", className: "bg-red-100 text-red-700 hover:bg-red-100" },
+  draw: { label: "Draw", className: "bg-gray-100 text-gray-700 hover:bg-gray-100" },
+};
+
+const describeBoard = (match: MatchRecord) =>
+  match.mode === "ultimate" ? "Ultimate" : `${match.boardSize}×${match.boardSize}, ${match.winLength} in a row`;
+
+const COLUMNS = 8;
+
+const MatchRow: React.FC<{ match: MatchRecord; inSeries?: boolean }> = ({ match, inSeries = false }) => (
+  <TableRow className={cn(inSeries && "bg-muted/30")}>
+    <TableCell className={cn("whitespace-nowrap", inSeries && "pl-8")}>
+      {inSeries && <span className="text-muted-foreground mr-2">Game {match.series.game}</span>}
+      {format(match.endedAt, "MMM d, yyyy HH:mm")}
+    </TableCell>
+    <TableCell>
+      {match.opponent ?? <span className="text-muted-foreground">Nobody</span>}
+      <span className="text-xs text-muted-foreground ml-1">(you were {match.mark})</span>
+    </TableCell>
+    <TableCell>
+      <Badge className={RESULT_BADGES[match.result].className}>{RESULT_BADGES[match.result].label}</Badge>
+    </TableCell>
+    <TableCell>{describeBoard(match)}</TableCell>
+    <TableCell className="text-right">{match.moves.length}</TableCell>
+    <TableCell className="text-right whitespace-nowrap">{formatDistanceStrict(match.endedAt, match.startedAt)}</TableCell>
+    <TableCell className="text-muted-foreground">{match.roomName ?? match.roomId}</TableCell>
+    <TableCell className="text-right">
+      <Button variant="ghost" size="sm" className="gap-1" asChild>
+        <Link to={`/replay/${match.id}`}>
+          <Play size={14} />
+          Replay
+        </Link>
+      </Button>
+    </TableCell>
+  </TableRow>
+);
+
+// The series as of its latest game, above the games themselves
+const SeriesRow: React.FC<{ series: SeriesRecord; opponent: string | null }> = ({ series, opponent }) => {
+  const { wins, losses, draws } = series.score;
+
+  return (
+    <TableRow className="bg-game-secondary/20 hover:bg-game-secondary/20">
+      <TableCell colSpan={COLUMNS}>
+        <div className="flex flex-wrap items-center gap-2 font-medium">
+          <Layers size={14} className="text-game-primary" />
+          Best of {series.bestOf} against {opponent ?? "nobody"}
+          <span className="font-mono tabular-nums">
+            {wins}–{losses}
+            {draws > 0 && `–${draws}`}
+          </span>
+          {series.result ? (
+            <Badge className={RESULT_BADGES[series.result].className}>Series {RESULT_BADGES[series.result].label.toLowerCase()}</Badge>
+          ) : (
+            <Badge variant="outline">Unfinished</Badge>
+          )}
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+};
+
+const History = () => {
+  const { matches, loaded, error } = useMatchHistory();
+  const [filters, setFilters] = useState<MatchFilters>(NO_MATCH_FILTERS);
+
+  const opponents = useMemo(
+    () => [...new Set(matches.map((match) => match.opponent).filter(Boolean))].sort(),
+    [matches]
+  );
+  const shown = useMemo(() => filterMatches(matches, filters), [matches, filters]);
+  const entries = useMemo(() => groupBySeries(shown), [shown]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white to-game-secondary/30 pb-10">
+      <header className="bg-white shadow-sm border-b p-4">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold text-game-primary">Match History</h1>
+          <div className="flex gap-2">
+            <ImportGameDialog />
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/" className="gap-1">
+                <ArrowLeft size={14} />
+                Back to game
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card className="shadow-lg border-2 border-game-secondary">
+          <CardHeader className="space-y-4">
+            <CardTitle className="text-lg font-bold text-game-primary">
+              Past games {loaded && <span className="text-sm font-normal text-muted-foreground">({shown.length} of {matches.length})</span>}
+            </CardTitle>
+            <HistoryFilters filters={filters} onChange={setFilters} opponents={opponents} />
+          </CardHeader>
+          <CardContent>
+            {!loaded ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-game-primary" />
+              </div>
+            ) : error ? (
+              <p className="text-center text-red-500 py-8 text-sm">Could not read match history: {error}</p>
+            ) : shown.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8 text-sm">
+                {matches.length === 0 ? "Finished games will show up here." : "No games match these filters."}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Opponent</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Board</TableHead>
+                    <TableHead className="text-right">Moves</TableHead>
+                    <TableHead className="text-right">Duration</TableHead>
+                    <TableHead>Room</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map(({ series, matches: games }) =>
+                    series ? (
+                      <React.Fragment key={series.id}>
+                        <SeriesRow series={series} opponent={games[0].opponent} />
+                        {games.map((match) => (
+                          <MatchRow key={match.id} match={match} inSeries />
+                        ))}
+                      </React.Fragment>
+                    ) : (
+                      <MatchRow key={games[0].id} match={games[0]} />
+                    ),
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default History;
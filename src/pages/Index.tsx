@@ -1,19 +1,29 @@
 
 import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
 import { useGame } from "@/context/GameContext";
 import UsernameForm from "@/components/auth/UsernameForm";
 import RoomList from "@/components/room/RoomList";
 import GameRoom from "@/components/room/GameRoom";
+import DiagnosticsPanel from "@/components/diagnostics/DiagnosticsPanel";
+import ServerSettingsDialog from "@/components/settings/ServerSettingsDialog";
+import { useServerConfig } from "@/hooks/use-server-config";
+import { useRoomUrl } from "@/hooks/use-room-url";
+import { serverLabel } from "@/services/serverConfig";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
-import { AlertCircle, Loader2, Wifi, WifiOff, RefreshCw } from "lucide-react";
+import { AlertCircle, BarChart3, History, Loader2, Trophy, Wifi, WifiOff, RefreshCw } from "lucide-react";
 
 const Index = () => {
   const { username, setUsername, connectToServer, disconnectFromServer, currentRoom, isConnected } = useGame();
   const [connecting, setConnecting] = useState(false);
   const [connectionFailed, setConnectionFailed] = useState(false);
   const { toast: radixToast } = useToast();
+  const { active: activeServer } = useServerConfig();
+  // Set when opened from an invite link
+  const { roomId } = useParams();
+  useRoomUrl();
 
   // Attempt to connect with stored username on load
   useEffect(() => {
@@ -123,7 +133,13 @@ const Index = () => {
       <div className="min-h-screen flex flex-col items-center justify-center bg-gradient-to-br from-white to-game-secondary/30 p-4">
         <div className="w-full max-w-md">
           <h1 className="text-4xl font-bold text-center mb-2 text-game-primary">Tic-Tac-Toe</h1>
-          <p className="text-center mb-8 text-muted-foreground">Multiplayer online game</p>
+          <p className="text-center mb-8 text-muted-foreground">
+            {roomId ? (
+              <>Choose a username to join room <span className="font-mono">{roomId}</span></>
+            ) : (
+              "Multiplayer online game"
+            )}
+          </p>
           
           {connecting ? (
             <div className="flex flex-col items-center gap-3 py-8">
@@ -131,7 +147,12 @@ const Index = () => {
               <p>Connecting to server...</p>
             </div>
           ) : (
-            <UsernameForm onSubmit={handleLogin} />
+            <>
+              <UsernameForm onSubmit={handleLogin} />
+              <div className="flex justify-center mt-4">
+                <ServerSettingsDialog />
+              </div>
+            </>
           )}
         </div>
       </div>
@@ -166,13 +187,37 @@ const Index = () => {
                   </Button>
                 </div>
               ) : (
-                <div className="flex items-center gap-1">
+                <div className="flex items-center gap-1" title={activeServer ?? undefined}>
                   <Wifi size={16} className="text-green-500" />
-                  <span className="text-xs text-green-600">Connected</span>
+                  <span className="text-xs text-green-600">
+                    Connected{activeServer && <> to <span className="font-mono">{serverLabel(activeServer)}</span></>}
+                  </span>
                 </div>
               )}
             </div>
-            <div className="text-sm">Logged in as <span className="font-semibold">{username}</span></div>
+            <ServerSettingsDialog onSaved={connectionFailed ? handleRetryConnection : undefined} />
+            <DiagnosticsPanel />
+            <Button variant="ghost" size="sm" className="h-7 px-2" title="Match history" asChild>
+              <Link to="/history">
+                <History size={14} />
+              </Link>
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 px-2" title="Statistics" asChild>
+              <Link to="/stats">
+                <BarChart3 size={14} />
+              </Link>
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 px-2" title="Leaderboard" asChild>
+              <Link to="/leaderboard">
+                <Trophy size={14} />
+              </Link>
+            </Button>
+            <div className="text-sm">
+              Logged in as{" "}
+              <Link to="/profile" className="font-semibold hover:underline" title="Profile and achievements">
+                {username}
+              </Link>
+            </div>
             <Button 
               variant="outline" 
               size="sm"
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { useGame } from "@/context/GameContext";
+import socketService from "@/services/socketService";
+import type { GameMode } from "@/engine";
+import type { LeaderboardPage, LeaderboardSort, SeasonInfo } from "@/protocol";
+import LeaderboardPagination from "@/components/leaderboard/LeaderboardPagination";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Loader2 } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+const SORTS: { value: LeaderboardSort; label: string }[] = [
+  { value: "rating", label: "Rating" },
+  { value: "wins", label: "Wins" },
+  { value: "streak", label: "Streak" },
+];
+
+const describeSeason = ({ number, startedAt, endedAt }: SeasonInfo) =>
+  endedAt === null
+    ? `Season ${number} (current)`
+    : `Season ${number} (${format(startedAt, "MMM d")} – ${format(endedAt, "MMM d, yyyy")})`;
+
+const Leaderboard = () => {
+  const { username, connectionStatus } = useGame();
+  const [mode, setMode] = useState<GameMode>("classic");
+  const [sort, setSort] = useState<LeaderboardSort>("rating");
+  // Undefined follows the current season
+  const [season, setSeason] = useState<number | undefined>(undefined);
+  const [page, setPage] = useState(1);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const connected = connectionStatus === "connected";
+
+  useEffect(() => {
+    if (!connected) return;
+
+    // Only the answer to the latest query counts
+    let current = true;
+    setError(null);
+    socketService
+      .getLeaderboard({ mode, sort, season, page, pageSize: PAGE_SIZE })
+      .then((response) => {
+        if (current) setLeaderboard(response);
+      })
+      .catch((reason) => {
+        if (current) setError(String(reason));
+      });
+    return () => {
+      current = false;
+    };
+  }, [connected, mode, sort, season, page]);
+
+  // A different ranking starts from its first page
+  const changeQuery = (update: () => void) => {
+    update();
+    setPage(1);
+  };
+
+  const renderContent = () => {
+    if (!connected) {
+      return (
+        <p className="text-center text-muted-foreground py-8 text-sm">
+          Ratings are kept by the game server. Connect to one to see the leaderboard.
+        </p>
+      );
+    }
+
+    if (error) {
+      return <p className="text-center text-red-500 py-8 text-sm">Could not load the leaderboard: {error}</p>;
+    }
+
+    if (!leaderboard) {
+      return (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-game-primary" />
+        </div>
+      );
+    }
+
+    if (leaderboard.total === 0) {
+      return (
+        <p className="text-center text-muted-foreground py-8 text-sm">
+          No rated games in this season yet. Create a room marked "Rated" to get on the board.
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-12">#</TableHead>
+              <TableHead>Player</TableHead>
+              <TableHead className="text-right">Rating</TableHead>
+              <TableHead className="text-right">Won</TableHead>
+              <TableHead className="text-right">Lost</TableHead>
+              <TableHead className="text-right">Drawn</TableHead>
+              <TableHead className="text-right">Streak</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {leaderboard.entries.map((entry) => (
+              <TableRow key={entry.username} className={entry.username === username ? "bg-game-secondary/30" : undefined}>
+                <TableCell className="font-medium">{entry.rank}</TableCell>
+                <TableCell>{entry.username}</TableCell>
+                <TableCell className="text-right font-semibold text-game-primary">{entry.rating}</TableCell>
+                <TableCell className="text-right">{entry.wins}</TableCell>
+                <TableCell className="text-right">{entry.losses}</TableCell>
+                <TableCell className="text-right">{entry.draws}</TableCell>
+                <TableCell className="text-right">
+                  {entry.streak}
+                  <span className="text-xs text-muted-foreground"> (best {entry.bestStreak})</span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <LeaderboardPagination page={page} pageCount={Math.ceil(leaderboard.total / PAGE_SIZE)} onPageChange={setPage} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white to-game-secondary/30 pb-10">
+      <header className="bg-white shadow-sm border-b p-4">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold text-game-primary">Leaderboard</h1>
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/" className="gap-1">
+              <ArrowLeft size={14} />
+              Back to game
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card className="shadow-lg border-2 border-game-secondary">
+          <CardHeader className="space-y-4">
+            <CardTitle className="text-lg font-bold text-game-primary">
+              {leaderboard ? describeSeason(leaderboard.season) : "Top players"}
+            </CardTitle>
+            <div className="flex flex-wrap gap-2 items-center">
+              <Select value={mode} onValueChange={(value) => changeQuery(() => setMode(value as GameMode))}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="classic">Classic</SelectItem>
+                  <SelectItem value="ultimate">Ultimate</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={season === undefined ? "current" : String(season)}
+                onValueChange={(value) => changeQuery(() => setSeason(value === "current" ? undefined : Number(value)))}
+                disabled={!leaderboard}
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue placeholder="Current season" />
+                </SelectTrigger>
+                <SelectContent>
+                  {leaderboard?.seasons.map((info) => (
+                    <SelectItem key={info.number} value={info.endedAt === null ? "current" : String(info.number)}>
+                      {describeSeason(info)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <ToggleGroup
+                type="single"
+                value={sort}
+                onValueChange={(value) => value && changeQuery(() => setSort(value as LeaderboardSort))}
+                className="ml-auto"
+              >
+                {SORTS.map(({ value, label }) => (
+                  <ToggleGroupItem key={value} value={value} size="sm">
+                    {label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          </CardHeader>
+          <CardContent>{renderContent()}</CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { useGame } from "@/context/GameContext";
+import { useAchievements } from "@/hooks/use-achievements";
+import { useMatchHistory } from "@/hooks/use-match-history";
+import { ACHIEVEMENTS } from "@/achievements";
+import { computeStats, winRateOf } from "@/stats";
+import { AchievementIcon } from "@/components/achievements/AchievementIcons";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, Lock } from "lucide-react";
+
+const Profile = () => {
+  const { username } = useGame();
+  const unlocked = useAchievements();
+  const { matches } = useMatchHistory();
+  const stats = useMemo(() => computeStats(matches), [matches]);
+
+  const unlockedCount = ACHIEVEMENTS.filter(({ id }) => unlocked[id]).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white to-game-secondary/30 pb-10">
+      <header className="bg-white shadow-sm border-b p-4">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold text-game-primary">Profile</h1>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/stats">Statistics</Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/" className="gap-1">
+                <ArrowLeft size={14} />
+                Back to game
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold">{username ?? "Guest"}</h2>
+          <p className="text-sm text-muted-foreground">
+            {stats.games} games on this device · {winRateOf(stats.results)}% won · {unlockedCount} of {ACHIEVEMENTS.length}{" "}
+            achievements
+          </p>
+        </div>
+
+        <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {ACHIEVEMENTS.map(({ id, name, description }) => {
+            const unlock = unlocked[id];
+
+            return (
+              <Card key={id} className={cn(!unlock && "opacity-60")}>
+                <CardHeader className="flex flex-row items-start gap-4 space-y-0">
+                  <div
+                    className={cn(
+                      "rounded-full p-3",
+                      unlock ? "bg-game-secondary text-game-primary" : "bg-muted text-muted-foreground",
+                    )}
+                  >
+                    {unlock ? <AchievementIcon id={id} size={20} /> : <Lock size={20} />}
+                  </div>
+                  <div className="space-y-1">
+                    <CardTitle className="text-base">{name}</CardTitle>
+                    <CardDescription>{description}</CardDescription>
+                    {unlock && (
+                      <p className="text-xs text-muted-foreground">
+                        Unlocked {format(unlock.unlockedAt, "MMM d, yyyy")} ·{" "}
+                        <Link to={`/replay/${unlock.matchId}`} className="text-game-primary hover:underline">
+                          replay
+                        </Link>
+                      </p>
+                    )}
+                  </div>
+                </CardHeader>
+              </Card>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,113 @@
+import { useMemo } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { useMatchHistory } from "@/hooks/use-match-history";
+import { replayStates } from "@/services/matchHistory";
+import { gameStates, NotationError, parseGame } from "@/notation";
+import ReplayViewer from "@/components/replay/ReplayViewer";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Loader2 } from "lucide-react";
+
+// Games from the match history open as /replay/:matchId; imported ones arrive at /replay with
+// their notation in the navigation state
+export interface ReplayLocationState {
+  notation?: string;
+}
+
+const HistoryReplay = ({ matchId }: { matchId: string }) => {
+  const { matches, loaded } = useMatchHistory();
+  const match = matches.find((m) => m.id === matchId);
+  const states = useMemo(() => (match ? replayStates(match) : []), [match]);
+
+  if (!loaded) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-game-primary" />
+      </div>
+    );
+  }
+
+  if (!match) {
+    return <p className="text-center text-muted-foreground py-8">This game is not in the match history.</p>;
+  }
+
+  return (
+    <>
+      <div className="text-center text-sm text-muted-foreground">
+        {match.roomName ?? match.roomId} · {format(match.endedAt, "MMM d, yyyy HH:mm")}
+      </div>
+      <ReplayViewer states={states} moves={match.moves} />
+      {states.length - 1 < match.moves.length && (
+        <p className="text-xs text-amber-600 text-center">
+          Only the first {states.length - 1} of {match.moves.length} recorded moves could be replayed.
+        </p>
+      )}
+    </>
+  );
+};
+
+const ImportedReplay = ({ notation }: { notation: string }) => {
+  const replay = useMemo(() => {
+    try {
+      const game = parseGame(notation);
+      const states = gameStates(game);
+      const moves = game.moves.map((move, index) => ({ move, mark: states[index].currentTurn }));
+      return { game, states, moves, error: null };
+    } catch (error) {
+      if (!(error instanceof NotationError)) throw error;
+      return { error: error.message };
+    }
+  }, [notation]);
+
+  if (replay.error !== null) {
+    return <p className="text-center text-red-500 py-8">Could not import this game: {replay.error}</p>;
+  }
+
+  return (
+    <>
+      <div className="text-center text-sm text-muted-foreground">Imported game{replay.game.date && <> · {replay.game.date}</>}</div>
+      <ReplayViewer states={replay.states} moves={replay.moves} />
+    </>
+  );
+};
+
+const Replay = () => {
+  const { matchId } = useParams();
+  const { state } = useLocation();
+  const notation = (state as ReplayLocationState | null)?.notation;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white to-game-secondary/30 pb-10">
+      <header className="bg-white shadow-sm border-b p-4">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold text-game-primary">Replay</h1>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/history">Match history</Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/" className="gap-1">
+                <ArrowLeft size={14} />
+                Back to game
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto space-y-4">
+          {matchId ? (
+            <HistoryReplay matchId={matchId} />
+          ) : notation ? (
+            <ImportedReplay notation={notation} />
+          ) : (
+            <p className="text-center text-muted-foreground py-8">Nothing to replay.</p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Replay;
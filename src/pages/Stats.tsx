@@ -0,0 +1,147 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { formatDuration, intervalToDuration } from "date-fns";
+import { useMatchHistory } from "@/hooks/use-match-history";
+import { computeStats, winRateOf } from "@/stats";
+import {
+  OpeningsChart,
+  OpponentsChart,
+  ResultsByMarkChart,
+  ResultsPie,
+  WinRateChart,
+} from "@/components/stats/StatsCharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Loader2 } from "lucide-react";
+
+// Charts only show the busiest few
+const TOP_OPENINGS = 8;
+const TOP_OPPONENTS = 10;
+
+const describeDuration = (milliseconds: number) =>
+  formatDuration(intervalToDuration({ start: 0, end: Math.round(milliseconds / 1000) * 1000 })) || "0 seconds";
+
+const Stats = () => {
+  const { matches, loaded, error } = useMatchHistory();
+  const stats = useMemo(() => computeStats(matches), [matches]);
+
+  const renderContent = () => {
+    if (!loaded) {
+      return (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-game-primary" />
+        </div>
+      );
+    }
+
+    if (error) {
+      return <p className="text-center text-red-500 py-8 text-sm">Could not read match history: {error}</p>;
+    }
+
+    if (stats.games === 0) {
+      return <p className="text-center text-muted-foreground py-8">Finish a game and your statistics will show up here.</p>;
+    }
+
+    const summary = [
+      { label: "Games", value: String(stats.games) },
+      { label: "Win rate", value: `${winRateOf(stats.results)}%` },
+      { label: "Average length", value: `${stats.averageMoves.toFixed(1)} moves` },
+      { label: "Average duration", value: describeDuration(stats.averageDuration) },
+    ];
+
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {summary.map(({ label, value }) => (
+            <Card key={label}>
+              <CardHeader className="pb-2">
+                <CardDescription>{label}</CardDescription>
+                <CardTitle className="text-2xl text-game-primary">{value}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Results</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResultsPie results={stats.results} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Results by mark</CardTitle>
+              <CardDescription>
+                Win rate as X {winRateOf(stats.byMark.X)}%, as O {winRateOf(stats.byMark.O)}%
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResultsByMarkChart byMark={stats.byMark} />
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Win rate over time</CardTitle>
+            <CardDescription>All games up to each day</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <WinRateChart points={stats.winRateOverTime} />
+          </CardContent>
+        </Card>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Openings</CardTitle>
+              <CardDescription>
+                Most frequent first move: {stats.openings[0]?.opening ?? "none yet"}
+                {stats.openings[0] && <>, won by whoever played it {stats.openings[0].winRate}% of the time</>}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <OpeningsChart openings={stats.openings.slice(0, TOP_OPENINGS)} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Results per opponent</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <OpponentsChart opponents={stats.opponents.slice(0, TOP_OPPONENTS)} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-white to-game-secondary/30 pb-10">
+      <header className="bg-white shadow-sm border-b p-4">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1 className="text-xl font-bold text-game-primary">Statistics</h1>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/history">Match history</Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/" className="gap-1">
+                <ArrowLeft size={14} />
+                Back to game
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">{renderContent()}</main>
+    </div>
+  );
+};
+
+export default Stats;
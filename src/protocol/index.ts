@@ -0,0 +1,158 @@
+import type { AnyGameState, GameMode, Move, ProposalKind, TimeControl } from "../engine";
+
+// The socket.io contract shared by the client (src/services/socketService.ts) and the
+// dev server (server/index.ts). Changing an event here breaks type-checking on whichever
+// side no longer matches, instead of failing silently at runtime.
+
+// Bump whenever an event or payload changes incompatibly. The client sends it in the
+// handshake and the server refuses clients speaking another version.
+export const PROTOCOL_VERSION = 6;
+
+export interface Message {
+  id: string;
+  sender: string;
+  text: string;
+  timestamp: number;
+  // Set on messages between spectators, which players never receive
+  channel?: "spectators";
+}
+
+export interface Room {
+  id: string;
+  name: string;
+  players: string[];
+  spectators: number;
+  isPrivate: boolean;
+  mode?: GameMode;
+  boardSize?: number;
+  winLength?: number;
+  rated?: boolean;
+  timeControl?: TimeControl;
+  // Games per series, when more than one
+  bestOf?: number;
+  // Rating of each seated player, by name
+  ratings?: Record<string, number>;
+  // Achievement ids each seated player has unlocked, by name
+  achievements?: Record<string, string[]>;
+}
+
+export interface CreateRoomPayload {
+  roomName: string;
+  isPrivate: boolean;
+  mode?: GameMode;
+  boardSize?: number;
+  winLength?: number;
+  // Rated rooms move their players' ratings when a game ends
+  rated?: boolean;
+  // Timed rooms give each player a chess clock; running out of time loses
+  timeControl?: TimeControl;
+  // Play best-of-N series (1, 3, 5 or 7) with the first move alternating
+  bestOf?: number;
+}
+
+export type LeaderboardSort = "rating" | "wins" | "streak";
+
+// Ratings and results start over every season; finished seasons keep their final standings
+export interface SeasonInfo {
+  number: number;
+  startedAt: number;
+  // null while the season is running
+  endedAt: number | null;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  username: string;
+  rating: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  // Rated games won in a row, and the most this season
+  streak: number;
+  bestStreak: number;
+}
+
+export interface LeaderboardQuery {
+  mode: GameMode;
+  sort: LeaderboardSort;
+  // The current season when left out
+  season?: number;
+  // Counted from 1
+  page: number;
+  pageSize: number;
+}
+
+export interface LeaderboardPage {
+  season: SeasonInfo;
+  // Every season there is, newest first
+  seasons: SeasonInfo[];
+  entries: LeaderboardEntry[];
+  // Players in the whole standings, not just this page
+  total: number;
+}
+
+export interface SendMessagePayload {
+  text: string;
+  sender: string;
+}
+
+// roomId is set on success, error on failure
+export interface RoomAck {
+  success: boolean;
+  roomId?: string;
+  error?: string;
+}
+
+// Issued by the server on every connection. Presenting it in the next handshake lets a
+// client that dropped out reclaim its seat within the server's grace period.
+export interface SessionInfo {
+  token: string;
+}
+
+// Answer to resume_session. success without a roomId means there was no room to go back to;
+// on failure the previous session has expired and its seat is gone.
+export interface ResumeAck {
+  success: boolean;
+  roomId?: string;
+  state?: AnyGameState;
+  messages?: Message[];
+  error?: string;
+}
+
+export interface HandshakeQuery {
+  username: string;
+  protocolVersion: string;
+  sessionToken?: string;
+}
+
+export interface ServerToClientEvents {
+  game_state: (state: AnyGameState) => void;
+  room_list: (rooms: Room[]) => void;
+  new_message: (message: Message) => void;
+  player_joined: (username: string) => void;
+  player_left: (username: string) => void;
+  session: (session: SessionInfo) => void;
+}
+
+export interface ClientToServerEvents {
+  create_room: (payload: CreateRoomPayload, ack: (response: RoomAck) => void) => void;
+  join_room: (roomId: string, ack: (response: RoomAck) => void) => void;
+  join_random: (ack: (response: RoomAck) => void) => void;
+  // Classic moves are a cell index, Ultimate moves a { board, cell } pair
+  move: (move: Move) => void;
+  restart_game: () => void;
+  resign: () => void;
+  // Offer a draw or ask to take the last move back; the opponent answers with answer_proposal
+  propose: (kind: ProposalKind) => void;
+  answer_proposal: (accept: boolean) => void;
+  send_message: (payload: SendMessagePayload) => void;
+  get_rooms: (ack: (rooms: Room[]) => void) => void;
+  leave_room: () => void;
+  // Follow a room's game and spectator chat without taking a seat
+  watch_room: (roomId: string, ack: (response: RoomAck) => void) => void;
+  // Re-enter the room held by the session from the handshake and get its full state back
+  resume_session: (ack: (response: ResumeAck) => void) => void;
+  get_leaderboard: (query: LeaderboardQuery, ack: (response: LeaderboardPage) => void) => void;
+  // Achievements are unlocked on the client; the server only passes them on to the lobby
+  set_achievements: (achievements: string[]) => void;
+}
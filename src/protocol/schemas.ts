@@ -0,0 +1,214 @@
+import { z, ZodType, ZodTypeAny, ZodTypeDef } from "zod";
+import { AnyGameState, boardConfigOf, GameState, isValidBoardConfig, Move, ProposalKind, UltimateGameState } from "../engine";
+import type { LeaderboardPage, Message, ResumeAck, Room, RoomAck, SendMessagePayload, SessionInfo } from "./index";
+
+// Runtime checks for everything the server sends. TypeScript only vouches for our own
+// code; these make sure a payload really has the shape the contract promises before
+// any of it reaches React state.
+
+// zod only infers required fields under strictNullChecks, which the app's tsconfig leaves
+// off, so each exported schema declares its output type instead of relying on inference
+const typed = <T>(schema: ZodTypeAny) => schema as ZodType<T, ZodTypeDef, unknown>;
+
+const markSchema = z.enum(["X", "O"]);
+const cellSchema = markSchema.nullable();
+
+const timeControlSchema = z.object({
+  initial: z.number().int().positive(),
+  increment: z.number().int().nonnegative(),
+  perMove: z.boolean().optional(),
+});
+
+const baseStateShape = {
+  currentTurn: markSchema,
+  gameOver: z.boolean(),
+  winner: z.string().nullable(),
+  winningCombination: z.array(z.number().int().nonnegative()).nullable(),
+  players: z.object({
+    X: z.string().nullable(),
+    O: z.string().nullable(),
+  }),
+  endReason: z.enum(["resigned", "agreed-draw", "timeout"]).optional(),
+  proposal: z
+    .object({
+      kind: z.enum(["draw", "takeback"]),
+      from: markSchema,
+      declined: z.boolean().optional(),
+    })
+    .nullable()
+    .optional(),
+  rated: z.boolean().optional(),
+  ratings: z
+    .object({
+      X: z.number().nullable(),
+      O: z.number().nullable(),
+    })
+    .optional(),
+  ratingChange: z
+    .object({
+      X: z.number(),
+      O: z.number(),
+    })
+    .nullable()
+    .optional(),
+  spectators: z.array(z.string()).optional(),
+  clock: z
+    .object({
+      control: timeControlSchema,
+      remaining: z.object({ X: z.number(), O: z.number() }),
+      runningSince: z.number().nullable(),
+      serverTime: z.number().optional(),
+    })
+    .optional(),
+  series: z
+    .object({
+      bestOf: z.number().int().positive(),
+      number: z.number().int().positive(),
+      wins: z.record(z.number().int().nonnegative()),
+      draws: z.number().int().nonnegative(),
+    })
+    .optional(),
+};
+
+const classicStateSchema = z
+  .object({
+    mode: z.literal("classic").optional(),
+    board: z.array(cellSchema),
+    boardSize: z.number().int().optional(),
+    winLength: z.number().int().optional(),
+    ...baseStateShape,
+  })
+  // Older servers leave out the board config; it follows from the board itself
+  .transform((state) => ({ ...state, ...boardConfigOf(state as GameState) }) as GameState)
+  .superRefine((state, ctx) => {
+    if (!isValidBoardConfig(state)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unsupported board ${state.boardSize}, ${state.winLength} in a row` });
+    }
+    if (state.board.length !== state.boardSize * state.boardSize) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["board"],
+        message: `Expected ${state.boardSize * state.boardSize} cells, got ${state.board.length}`,
+      });
+    }
+    if (state.winningCombination?.some((index) => index >= state.board.length)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["winningCombination"], message: "Index outside the board" });
+    }
+  });
+
+const ultimateStateSchema = typed<UltimateGameState>(z.object({
+  mode: z.literal("ultimate"),
+  boards: z.array(z.array(cellSchema).length(9)).length(9),
+  boardResults: z.array(z.union([markSchema, z.literal("draw")]).nullable()).length(9),
+  activeBoard: z.number().int().min(0).max(8).nullable(),
+  ...baseStateShape,
+}));
+
+export const gameStateSchema = typed<AnyGameState>(z.union([ultimateStateSchema, classicStateSchema]));
+
+export const messageSchema = typed<Message>(z.object({
+  id: z.string(),
+  sender: z.string(),
+  text: z.string(),
+  timestamp: z.number(),
+  channel: z.literal("spectators").optional(),
+}));
+
+export const roomSchema = typed<Room>(z.object({
+  id: z.string(),
+  name: z.string(),
+  players: z.array(z.string()),
+  spectators: z.number().int().nonnegative(),
+  isPrivate: z.boolean(),
+  mode: z.enum(["classic", "ultimate"]).optional(),
+  boardSize: z.number().int().optional(),
+  winLength: z.number().int().optional(),
+  rated: z.boolean().optional(),
+  timeControl: timeControlSchema.optional(),
+  bestOf: z.number().int().positive().optional(),
+  ratings: z.record(z.number()).optional(),
+  achievements: z.record(z.array(z.string())).optional(),
+}));
+
+export const roomListSchema = typed<Room[]>(z.array(roomSchema));
+
+export const roomAckSchema = typed<RoomAck>(z.object({
+  success: z.boolean(),
+  roomId: z.string().optional(),
+  error: z.string().optional(),
+}));
+
+export const resumeAckSchema = typed<ResumeAck>(z.object({
+  success: z.boolean(),
+  roomId: z.string().optional(),
+  state: gameStateSchema.optional(),
+  messages: z.array(messageSchema).optional(),
+  error: z.string().optional(),
+}));
+
+export const sessionSchema = typed<SessionInfo>(z.object({
+  token: z.string().min(1),
+}));
+
+const seasonSchema = z.object({
+  number: z.number().int().positive(),
+  startedAt: z.number(),
+  endedAt: z.number().nullable(),
+});
+
+export const leaderboardPageSchema = typed<LeaderboardPage>(z.object({
+  season: seasonSchema,
+  seasons: z.array(seasonSchema),
+  entries: z.array(z.object({
+    rank: z.number().int().positive(),
+    username: z.string(),
+    rating: z.number(),
+    wins: z.number().int().nonnegative(),
+    losses: z.number().int().nonnegative(),
+    draws: z.number().int().nonnegative(),
+    streak: z.number().int().nonnegative(),
+    bestStreak: z.number().int().nonnegative(),
+  })),
+  total: z.number().int().nonnegative(),
+}));
+
+export const usernameSchema = z.string().min(1);
+
+// One schema per server event, keyed like ServerToClientEvents
+export const serverEventSchemas = {
+  game_state: gameStateSchema,
+  room_list: roomListSchema,
+  new_message: messageSchema,
+  player_joined: usernameSchema,
+  player_left: usernameSchema,
+  session: sessionSchema,
+};
+
+// What clients send. The server checks these before a payload reaches the engine; the engine
+// itself decides whether a well-formed move is legal.
+
+export const moveSchema = typed<Move>(z.union([
+  z.number().int(),
+  z.object({
+    board: z.number().int(),
+    cell: z.number().int(),
+  }),
+]));
+
+export const proposalKindSchema = typed<ProposalKind>(z.enum(["draw", "takeback"]));
+
+// The sender is taken from the connection, so only the text matters
+export const sendMessageSchema = typed<Pick<SendMessagePayload, "text">>(z.object({
+  text: z.string(),
+}));
+
+// Turn zod's issues into short "path: message" lines for logs and the diagnostics panel
+export const describeIssues = (error: z.ZodError): string[] =>
+  error.issues.flatMap((issue) => {
+    // A bare "Invalid input" says nothing; report the union branch that came closest instead
+    if (issue.code === z.ZodIssueCode.invalid_union) {
+      const closest = [...issue.unionErrors].sort((a, b) => a.issues.length - b.issues.length)[0];
+      if (closest) return describeIssues(closest);
+    }
+    return [issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message];
+  });
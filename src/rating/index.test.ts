@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RATING, expectedScore, formatRatingChange, ratingChanges } from "./index";
+
+describe("expectedScore", () => {
+  it.each([
+    { rating: 1200, opponent: 1200, expected: 0.5 },
+    { rating: 1600, opponent: 1200, expected: 0.909 },
+    { rating: 1200, opponent: 1600, expected: 0.091 },
+  ])("gives $rating against $opponent about $expected", ({ rating, opponent, expected }) => {
+    expect(expectedScore(rating, opponent)).toBeCloseTo(expected, 3);
+  });
+});
+
+describe("ratingChanges", () => {
+  it.each([
+    { name: "a win between equals", ratings: { X: DEFAULT_RATING, O: DEFAULT_RATING }, winner: "X" as const, X: 16 },
+    { name: "a draw between equals", ratings: { X: DEFAULT_RATING, O: DEFAULT_RATING }, winner: null, X: 0 },
+    { name: "an upset", ratings: { X: 1200, O: 1600 }, winner: "X" as const, X: 29 },
+    { name: "an expected win", ratings: { X: 1600, O: 1200 }, winner: "X" as const, X: 3 },
+    { name: "a draw against a stronger player", ratings: { X: 1200, O: 1600 }, winner: null, X: 13 },
+  ])("moves the ratings after $name, and no points are made or lost", ({ ratings, winner, X }) => {
+    expect(ratingChanges(ratings, winner)).toEqual({ X, O: -X });
+  });
+});
+
+describe("formatRatingChange", () => {
+  it.each([
+    { change: 16, text: "+16" },
+    { change: -8, text: "-8" },
+    { change: 0, text: "±0" },
+  ])("writes $change as $text", ({ change, text }) => {
+    expect(formatRatingChange(change)).toBe(text);
+  });
+});
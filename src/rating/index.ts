@@ -0,0 +1,23 @@
+import type { Mark } from "../engine";
+
+// Elo ratings, shared by the dev server (which keeps the ratings) and the client (which
+// shows them). Only games between two people in rooms created as rated count.
+
+export const DEFAULT_RATING = 1200;
+// How far one game can move a rating; 32 is the usual choice for casual play
+const K_FACTOR = 32;
+
+// Chance of winning against the opponent, with draws counting as half a win
+export const expectedScore = (rating: number, opponentRating: number) =>
+  1 / (1 + 10 ** ((opponentRating - rating) / 400));
+
+// Rating points gained (or lost, when negative) by each side. The winner is null for a draw.
+// Rounded once for X and mirrored for O, so no points are created or lost.
+export const ratingChanges = (ratings: Record<Mark, number>, winner: Mark | null): Record<Mark, number> => {
+  const score = winner === null ? 0.5 : winner === "X" ? 1 : 0;
+  const change = Math.round(K_FACTOR * (score - expectedScore(ratings.X, ratings.O)));
+  return { X: change, O: -change };
+};
+
+// "+16", "-8", "±0"
+export const formatRatingChange = (change: number) => (change > 0 ? `+${change}` : change < 0 ? `${change}` : "±0");
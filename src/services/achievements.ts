@@ -0,0 +1,63 @@
+import { Achievement, AchievementId, earnedBy } from "@/achievements";
+import type { MatchRecord } from "@/services/matchHistory";
+
+// Achievements unlocked on this device, kept in localStorage next to the rest of the settings
+
+const STORAGE_KEY = "tictactoe_achievements";
+
+export interface UnlockedAchievement {
+  unlockedAt: number;
+  // The game that earned it
+  matchId: string;
+}
+
+export type UnlockedAchievements = Partial<Record<AchievementId, UnlockedAchievement>>;
+
+type Listener = () => void;
+
+const readStored = (): UnlockedAchievements => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+  } catch {
+    return {};
+  }
+};
+
+class AchievementStore {
+  private unlocked = readStored();
+  private listeners = new Set<Listener>();
+
+  // Unlocks whatever the finished game earned for the first time and returns it
+  evaluate(match: MatchRecord, history: MatchRecord[]): Achievement[] {
+    const fresh = earnedBy(match, history).filter(({ id }) => !this.unlocked[id]);
+    if (fresh.length === 0) return [];
+
+    const unlocked = { ...this.unlocked };
+    fresh.forEach(({ id }) => {
+      unlocked[id] = { unlockedAt: match.endedAt, matchId: match.id };
+    });
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(unlocked));
+    this.update(unlocked);
+    return fresh;
+  }
+
+  // Shaped for React's useSyncExternalStore
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.unlocked;
+
+  private update(unlocked: UnlockedAchievements) {
+    this.unlocked = unlocked;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Create a singleton instance
+const achievements = new AchievementStore();
+
+export default achievements;
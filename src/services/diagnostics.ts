@@ -0,0 +1,54 @@
+// Keeps the payloads the client refused to apply, so they can be inspected in the
+// diagnostics panel instead of only scrolling past in the console.
+
+export interface RejectedPayload {
+  id: number;
+  source: string;
+  receivedAt: number;
+  issues: string[];
+  payload: unknown;
+}
+
+const MAX_ENTRIES = 50;
+
+type Listener = () => void;
+
+class DiagnosticsStore {
+  private entries: RejectedPayload[] = [];
+  private listeners = new Set<Listener>();
+  private nextId = 1;
+
+  reportRejected(source: string, payload: unknown, issues: string[]) {
+    console.warn(`Rejected ${source} payload:`, issues, payload);
+
+    this.entries = [
+      { id: this.nextId++, source, receivedAt: Date.now(), issues, payload },
+      ...this.entries,
+    ].slice(0, MAX_ENTRIES);
+    this.emit();
+  }
+
+  clear() {
+    this.entries = [];
+    this.emit();
+  }
+
+  // Shaped for React's useSyncExternalStore
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.entries;
+
+  private emit() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Create a singleton instance
+const diagnostics = new DiagnosticsStore();
+
+export default diagnostics;
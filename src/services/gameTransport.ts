@@ -0,0 +1,49 @@
+import type { BotSettings } from "@/ai";
+import type { Move, ProposalKind } from "@/engine";
+import type { Room, RoomAck, ServerToClientEvents } from "@/protocol";
+import type { RoomOptions } from "@/services/socketService";
+
+// What GameContext needs from whatever carries a game: the socket.io server, the offline
+// simulator, or a direct connection to the other player. Adding a transport means
+// implementing these, not touching every action in the context.
+
+export type TransportKind = "server" | "offline" | "peer";
+
+// Everything needed while sitting in a room
+export interface RoomTransport {
+  readonly kind: TransportKind;
+  leaveRoom(): void;
+  makeMove(move: Move): void;
+  restartGame(): void;
+  resign(): void;
+  // A draw offer or takeback request, which the opponent answers
+  propose(kind: ProposalKind): void;
+  answerProposal(accept: boolean): void;
+  sendMessage(text: string): void;
+  onGameState(callback: ServerToClientEvents["game_state"]): () => void;
+  onMessage(callback: ServerToClientEvents["new_message"]): () => void;
+  onPlayerJoined(callback: ServerToClientEvents["player_joined"]): () => void;
+  onPlayerLeft(callback: ServerToClientEvents["player_left"]): () => void;
+}
+
+// The opponent is the computer, and whether it is busy choosing a move
+export interface BotStatus {
+  bot: BotSettings | null;
+  thinking: boolean;
+}
+
+// A transport that also has a lobby: a room list to browse, create and join
+export interface GameTransport extends RoomTransport {
+  // Resolves false when this transport cannot be used, e.g. no server answered
+  connect(username: string): Promise<boolean>;
+  disconnect(): void;
+  createRoom(roomName: string, isPrivate: boolean, options: RoomOptions): Promise<RoomAck>;
+  joinRoom(roomId: string): Promise<RoomAck>;
+  joinRandomGame(): Promise<RoomAck>;
+  getRoomList(): Promise<Room[]>;
+  onRoomList(callback: ServerToClientEvents["room_list"]): () => void;
+  // Only transports whose rooms others can follow let you watch without a seat
+  watchRoom?(roomId: string): Promise<RoomAck>;
+  // Only transports with a computer opponent report it
+  onBotStatus?(callback: (status: BotStatus) => void): () => void;
+}
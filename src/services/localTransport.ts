@@ -0,0 +1,365 @@
+import { v4 as uuidv4 } from "uuid";
+import { AnyGameState, DEFAULT_BOARD_CONFIG, Move, ProposalKind } from "@/engine";
+import type { Message, Room, RoomAck } from "@/protocol";
+import type { RoomOptions } from "@/services/socketService";
+import { HostedRoom, RoomHost } from "@/services/roomHost";
+import { RoomEvents } from "@/services/roomEvents";
+
+// Multiplayer between tabs of the same browser, without a server. Each room lives in the tab
+// that created it: the host tab plays the server's part, validating moves and sending the
+// authoritative state over a BroadcastChannel. The other tab only sends requests.
+
+const CHANNEL_NAME = "tictactoe-local";
+const ROOM_PREFIX = "local-";
+// Hosts repeat their announcement so new tabs see them and closed tabs drop out of the list
+const ANNOUNCE_INTERVAL = 2000;
+const ROOM_EXPIRY = ANNOUNCE_INTERVAL * 3;
+const JOIN_TIMEOUT = 2000;
+
+type LocalPacket =
+  | { type: "discover" }
+  | { type: "announce"; room: Room }
+  | { type: "room_closed"; roomId: string }
+  | { type: "join"; requestId: string; roomId: string; tabId: string; username: string }
+  | { type: "join_result"; requestId: string; ack: RoomAck }
+  | { type: "leave"; roomId: string; tabId: string }
+  | { type: "move"; roomId: string; tabId: string; move: Move }
+  | { type: "restart"; roomId: string; tabId: string }
+  | { type: "resign"; roomId: string; tabId: string }
+  | { type: "propose"; roomId: string; tabId: string; kind: ProposalKind }
+  | { type: "answer_proposal"; roomId: string; tabId: string; accept: boolean }
+  | { type: "chat"; roomId: string; tabId: string; text: string }
+  // The host is leaving; the named tab takes the room over
+  | { type: "handover"; room: HostedRoom; hostId: string }
+  | { type: "game_state"; roomId: string; state: AnyGameState }
+  | { type: "new_message"; roomId: string; message: Message }
+  | { type: "player_joined"; roomId: string; username: string }
+  | { type: "player_left"; roomId: string; username: string };
+
+type RoomEvent = Extract<LocalPacket, { type: "game_state" | "new_message" | "player_joined" | "player_left" }>;
+
+export const isLocalRoomId = (roomId: string) => roomId.startsWith(ROOM_PREFIX);
+
+class LocalTransport extends RoomEvents {
+  private channel: BroadcastChannel | null = null;
+  private tabId = uuidv4();
+  private username: string | null = null;
+  private hosted: RoomHost | null = null;
+  private currentRoomId: string | null = null;
+  // Rooms announced by other tabs, with when they were last heard of
+  private knownRooms = new Map<string, { room: Room; seenAt: number }>();
+  private pendingJoins = new Map<string, (ack: RoomAck) => void>();
+  private announceTimer: ReturnType<typeof setInterval> | undefined;
+
+  get isSupported() {
+    return typeof BroadcastChannel !== "undefined";
+  }
+
+  connect(username: string) {
+    this.username = username;
+    if (!this.isSupported) return Promise.resolve(false);
+    if (this.channel) return Promise.resolve(true);
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<LocalPacket>) => this.receive(event.data);
+    this.announceTimer = setInterval(() => this.tick(), ANNOUNCE_INTERVAL);
+    window.addEventListener("pagehide", this.handlePageHide);
+    this.post({ type: "discover" });
+    return Promise.resolve(true);
+  }
+
+  disconnect() {
+    this.leaveRoom();
+    clearInterval(this.announceTimer);
+    window.removeEventListener("pagehide", this.handlePageHide);
+    this.channel?.close();
+    this.channel = null;
+    this.username = null;
+    this.knownRooms.clear();
+    this.emitRoomList();
+  }
+
+  hasRoom(roomId: string) {
+    return this.knownRooms.has(roomId) || this.hosted?.id === roomId;
+  }
+
+  // Room actions
+  createRoom(roomName: string, isPrivate: boolean, options: RoomOptions) {
+    if (!this.channel) return Promise.reject("Not connected");
+    this.leaveRoom();
+
+    this.hosted = RoomHost.create(`${ROOM_PREFIX}${uuidv4().slice(0, 8)}`, roomName, isPrivate, options, this.tabId, this.username);
+    this.currentRoomId = this.hosted.id;
+    this.announce();
+    this.broadcastState();
+    return Promise.resolve<RoomAck>({ success: true, roomId: this.hosted.id });
+  }
+
+  joinRoom(roomId: string) {
+    if (!this.channel) return Promise.reject("Not connected");
+    if (this.hosted?.id === roomId) return Promise.resolve<RoomAck>({ success: true, roomId });
+
+    this.leaveRoom();
+    const requestId = uuidv4();
+
+    return new Promise<RoomAck>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingJoins.delete(requestId);
+        reject("Room not found");
+      }, JOIN_TIMEOUT);
+
+      this.pendingJoins.set(requestId, (ack) => {
+        clearTimeout(timeout);
+        this.pendingJoins.delete(requestId);
+        if (!ack.success) {
+          reject(ack.error);
+          return;
+        }
+        this.currentRoomId = roomId;
+        resolve(ack);
+      });
+
+      this.post({ type: "join", requestId, roomId, tabId: this.tabId, username: this.username });
+    });
+  }
+
+  leaveRoom() {
+    const roomId = this.currentRoomId;
+    if (!roomId) return;
+    this.currentRoomId = null;
+
+    if (this.hosted?.id !== roomId) {
+      this.post({ type: "leave", roomId, tabId: this.tabId });
+      return;
+    }
+
+    // Hand the room to the other player if there is one, like the server keeps a room while anyone is in it
+    const host = this.hosted;
+    this.hosted = null;
+    const heir = host.opponentOf(this.tabId);
+
+    if (heir) {
+      host.unseat(this.tabId);
+      this.post({ type: "handover", room: host.room, hostId: heir });
+      this.post({ type: "player_left", roomId, username: this.username });
+    } else {
+      this.post({ type: "room_closed", roomId });
+    }
+  }
+
+  // First open public room another tab is hosting, if any
+  findOpenRoom() {
+    for (const { room } of this.knownRooms.values()) {
+      if (!room.isPrivate && room.players.length < 2) return room;
+    }
+    return undefined;
+  }
+
+  joinRandomGame() {
+    const open = this.findOpenRoom();
+    return open ? this.joinRoom(open.id) : this.createRoom("Quick Game", false, DEFAULT_BOARD_CONFIG);
+  }
+
+  // Game actions
+  makeMove(move: Move) {
+    if (!this.currentRoomId) return;
+    this.request({ type: "move", roomId: this.currentRoomId, tabId: this.tabId, move });
+  }
+
+  restartGame() {
+    if (!this.currentRoomId) return;
+    this.request({ type: "restart", roomId: this.currentRoomId, tabId: this.tabId });
+  }
+
+  resign() {
+    if (!this.currentRoomId) return;
+    this.request({ type: "resign", roomId: this.currentRoomId, tabId: this.tabId });
+  }
+
+  propose(kind: ProposalKind) {
+    if (!this.currentRoomId) return;
+    this.request({ type: "propose", roomId: this.currentRoomId, tabId: this.tabId, kind });
+  }
+
+  answerProposal(accept: boolean) {
+    if (!this.currentRoomId) return;
+    this.request({ type: "answer_proposal", roomId: this.currentRoomId, tabId: this.tabId, accept });
+  }
+
+  // Chat actions
+  sendMessage(text: string) {
+    if (!this.currentRoomId) return;
+    this.request({ type: "chat", roomId: this.currentRoomId, tabId: this.tabId, text });
+  }
+
+  getRoomList() {
+    return Promise.resolve(this.roomList());
+  }
+
+  // Requests go to the host, which may be this very tab
+  private request(packet: LocalPacket) {
+    if (this.hosted) {
+      this.handleAsHost(packet);
+    } else {
+      this.post(packet);
+    }
+  }
+
+  private post(packet: LocalPacket) {
+    this.channel?.postMessage(packet);
+  }
+
+  private receive(packet: LocalPacket) {
+    switch (packet.type) {
+      case "discover":
+        this.announce();
+        break;
+      case "announce":
+        this.knownRooms.set(packet.room.id, { room: packet.room, seenAt: Date.now() });
+        this.emitRoomList();
+        break;
+      case "room_closed":
+        this.knownRooms.delete(packet.roomId);
+        this.emitRoomList();
+        break;
+      case "join_result":
+        this.pendingJoins.get(packet.requestId)?.(packet.ack);
+        break;
+      case "handover":
+        if (packet.hostId !== this.tabId) break;
+        this.hosted = new RoomHost(packet.room);
+        this.knownRooms.delete(packet.room.id);
+        this.announce();
+        this.broadcastState();
+        break;
+      case "game_state":
+      case "new_message":
+      case "player_joined":
+      case "player_left":
+        this.deliver(packet);
+        break;
+      default:
+        if (this.hosted) this.handleAsHost(packet);
+    }
+  }
+
+  // Host side, for the room this tab owns
+  private handleAsHost(packet: LocalPacket) {
+    const host = this.hosted;
+    if (!host || !("roomId" in packet) || packet.roomId !== host.id) return;
+
+    switch (packet.type) {
+      case "join": {
+        const ack = host.seat(packet.tabId, packet.username);
+        this.post({ type: "join_result", requestId: packet.requestId, ack });
+        if (!ack.success) return;
+
+        this.broadcast({ type: "player_joined", roomId: host.id, username: packet.username });
+        this.broadcastState();
+        host.messages.forEach((message) => this.post({ type: "new_message", roomId: host.id, message }));
+        this.announce();
+        break;
+      }
+      case "leave": {
+        const username = host.unseat(packet.tabId);
+        if (!username) return;
+        this.broadcast({ type: "player_left", roomId: host.id, username });
+        this.broadcastState();
+        this.announce();
+        break;
+      }
+      case "move":
+        host.move(packet.tabId, packet.move);
+        // Sent either way, which also puts a rejected sender back in sync
+        this.broadcastState();
+        break;
+      case "restart":
+        host.restart(packet.tabId);
+        this.broadcastState();
+        break;
+      case "resign":
+        host.resign(packet.tabId);
+        this.broadcastState();
+        break;
+      case "propose":
+        host.propose(packet.tabId, packet.kind);
+        this.broadcastState();
+        break;
+      case "answer_proposal":
+        host.answerProposal(packet.tabId, packet.accept);
+        this.broadcastState();
+        break;
+      case "chat": {
+        const message = host.chat(packet.tabId, packet.text);
+        if (message) this.broadcast({ type: "new_message", roomId: host.id, message });
+        break;
+      }
+    }
+  }
+
+  // Room events reach the other tabs over the channel and this tab directly
+  private broadcast(packet: RoomEvent) {
+    this.post(packet);
+    this.deliver(packet);
+  }
+
+  private broadcastState() {
+    if (this.hosted) this.broadcast({ type: "game_state", roomId: this.hosted.id, state: this.hosted.state });
+  }
+
+  private deliver(packet: RoomEvent) {
+    if (packet.roomId !== this.currentRoomId) return;
+
+    switch (packet.type) {
+      case "game_state":
+        this.emit("game_state", packet.state);
+        break;
+      case "new_message":
+        this.emit("new_message", packet.message);
+        break;
+      case "player_joined":
+      case "player_left":
+        // Like socket.to(room) on the server: nobody is told about themselves
+        if (packet.username !== this.username) this.emit(packet.type, packet.username);
+        break;
+    }
+  }
+
+  private announce() {
+    if (this.hosted) this.post({ type: "announce", room: this.hosted.summarize() });
+    this.emitRoomList();
+  }
+
+  private tick() {
+    this.announce();
+
+    const now = Date.now();
+    let expired = false;
+    this.knownRooms.forEach(({ seenAt }, roomId) => {
+      if (now - seenAt > ROOM_EXPIRY) {
+        this.knownRooms.delete(roomId);
+        expired = true;
+      }
+    });
+    if (expired) this.emitRoomList();
+  }
+
+  private roomList() {
+    const rooms = [...this.knownRooms.values()].map(({ room }) => room);
+    return this.hosted ? [this.hosted.summarize(), ...rooms] : rooms;
+  }
+
+  private emitRoomList() {
+    this.emit("room_list", this.roomList());
+  }
+
+  // Closing the tab counts as leaving, so the other player inherits the room
+  private handlePageHide = () => {
+    this.leaveRoom();
+  };
+}
+
+// Create a singleton instance
+const localTransport = new LocalTransport();
+
+export default localTransport;
@@ -0,0 +1,330 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  AnyGameState,
+  createState,
+  DEFAULT_BOARD_CONFIG,
+  endGame,
+  EndReason,
+  GameMode,
+  IllegalMoveError,
+  isUltimateState,
+  Mark,
+  Move,
+  movesBetween,
+  playMove,
+  restartState,
+  seriesStanding,
+} from "@/engine";
+import type { Difficulty } from "@/ai";
+
+// Every finished game this browser took part in, kept in IndexedDB so it outlives the room.
+// Games are recorded from the states the client sees, whatever the transport.
+
+const DB_NAME = "tictactoe";
+const DB_VERSION = 1;
+const STORE = "matches";
+
+export type MatchResult = "win" | "loss" | "draw";
+
+export interface RecordedMove {
+  move: Move;
+  mark: Mark;
+  playedAt: number;
+}
+
+// A game played as part of a best-of-N series of more than one game
+export interface SeriesRecord {
+  // Shared by every game of the series
+  id: string;
+  bestOf: number;
+  // This game's number in the series
+  game: number;
+  // The score once this game was over, from the local player's side
+  score: { wins: number; losses: number; draws: number };
+  // Only on the game that decided the series
+  result?: MatchResult;
+}
+
+export interface MatchRecord {
+  id: string;
+  roomId: string;
+  roomName: string | null;
+  mode: GameMode;
+  // Classic games only
+  boardSize?: number;
+  winLength?: number;
+  players: { X: string | null; O: string | null };
+  // The local player's side, and the name on the other one
+  mark: Mark;
+  opponent: string | null;
+  // Games against the computer only
+  botDifficulty?: Difficulty;
+  moves: RecordedMove[];
+  result: MatchResult;
+  winner: string | null;
+  // Games that ended without a line or a full board
+  endReason?: EndReason;
+  series?: SeriesRecord;
+  startedAt: number;
+  endedAt: number;
+}
+
+// A row of the history: a single game, or every game of a series together
+export type HistoryEntry = { series: null; matches: [MatchRecord] } | { series: SeriesRecord; matches: MatchRecord[] };
+
+export interface MatchHistorySnapshot {
+  matches: MatchRecord[];
+  loaded: boolean;
+  error: string | null;
+}
+
+export interface MatchFilters {
+  opponent: string | null;
+  result: MatchResult | null;
+  // Inclusive bounds on when the game ended
+  from: Date | null;
+  to: Date | null;
+}
+
+export const NO_MATCH_FILTERS: MatchFilters = { opponent: null, result: null, from: null, to: null };
+
+export const filterMatches = (matches: MatchRecord[], { opponent, result, from, to }: MatchFilters) =>
+  matches.filter(
+    (match) =>
+      (opponent === null || match.opponent === opponent) &&
+      (result === null || match.result === result) &&
+      (from === null || match.endedAt >= from.getTime()) &&
+      (to === null || match.endedAt <= to.getTime()),
+  );
+
+// Groups the games of each series into one entry, placed where its latest game was. Each entry
+// keeps the order of `matches`; a series is summed up by its latest game's record.
+export const groupBySeries = (matches: MatchRecord[]): HistoryEntry[] => {
+  const entries: HistoryEntry[] = [];
+  const seriesEntries = new Map<string, MatchRecord[]>();
+
+  for (const match of matches) {
+    if (!match.series) {
+      entries.push({ series: null, matches: [match] });
+      continue;
+    }
+    const games = seriesEntries.get(match.series.id);
+    if (games) {
+      games.push(match);
+      continue;
+    }
+    const entry = { series: match.series, matches: [match] };
+    seriesEntries.set(match.series.id, entry.matches);
+    entries.push(entry);
+  }
+  return entries;
+};
+
+const resultFor = (winner: string | null, username: string): MatchResult =>
+  winner === null ? "draw" : winner === username ? "win" : "loss";
+
+// Where a finished game stands in its series, if it is part of one. The room and the series'
+// number within it tell series apart.
+const seriesRecordOf = (state: AnyGameState, roomId: string, username: string): SeriesRecord | undefined => {
+  const standing = seriesStanding(state);
+  if (!standing || state.series.bestOf <= 1) return undefined;
+
+  const opponent = state.players.X === username ? state.players.O : state.players.X;
+  return {
+    id: `${roomId}/${state.series.number}`,
+    bestOf: state.series.bestOf,
+    game: standing.played,
+    score: { wins: standing.wins[username] ?? 0, losses: standing.wins[opponent] ?? 0, draws: standing.draws },
+    ...(standing.over ? { result: resultFor(standing.winner, username) } : {}),
+  };
+};
+
+type Listener = () => void;
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("This browser cannot store match history"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("endedAt", "endedAt");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+class MatchHistoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private snapshot: MatchHistorySnapshot = { matches: [], loaded: false, error: null };
+  private listeners = new Set<Listener>();
+
+  // Newest first
+  async load() {
+    try {
+      const matches = await this.transaction("readonly", (store) => request(store.getAll() as IDBRequest<MatchRecord[]>));
+      this.update({ matches: matches.sort((a, b) => b.endedAt - a.endedAt), loaded: true, error: null });
+    } catch (error) {
+      this.update({ ...this.snapshot, loaded: true, error: String(error) });
+    }
+  }
+
+  // Resolves false when the browser refused to store it
+  async save(match: MatchRecord) {
+    try {
+      await this.transaction("readwrite", (store) => request(store.put(match)));
+      this.update({ ...this.snapshot, matches: [match, ...this.snapshot.matches.filter((m) => m.id !== match.id)] });
+      return true;
+    } catch (error) {
+      console.error("Failed to save match:", error);
+      return false;
+    }
+  }
+
+  get(id: string) {
+    return this.transaction("readonly", (store) => request(store.get(id) as IDBRequest<MatchRecord | undefined>));
+  }
+
+  async clear() {
+    await this.transaction("readwrite", (store) => request(store.clear()));
+    this.update({ ...this.snapshot, matches: [] });
+  }
+
+  // Shaped for React's useSyncExternalStore
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  private async transaction<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>) {
+    this.db ??= openDatabase();
+    const db = await this.db.catch((error) => {
+      this.db = null;
+      throw error;
+    });
+    return run(db.transaction(STORE, mode).objectStore(STORE));
+  }
+
+  private update(snapshot: MatchHistorySnapshot) {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// The state before the first move and after each one. A recording that breaks the rules part
+// way (moves missed during a reconnect can be put in the wrong order) stops there.
+export const replayStates = (match: MatchRecord): AnyGameState[] => {
+  const states = [
+    createState(match.mode, match.players, {
+      boardSize: match.boardSize ?? DEFAULT_BOARD_CONFIG.boardSize,
+      winLength: match.winLength ?? DEFAULT_BOARD_CONFIG.winLength,
+    }),
+  ];
+
+  for (const { move, mark } of match.moves) {
+    try {
+      states.push(playMove(states[states.length - 1], move, mark));
+    } catch (error) {
+      if (!(error instanceof IllegalMoveError)) throw error;
+      console.warn(`Replay of ${match.id} stops at move ${states.length}:`, error.message);
+      return states;
+    }
+  }
+
+  // The moves alone leave a resigned, agreed or timed-out game running
+  const last = states[states.length - 1];
+  if (match.endReason && !last.gameOver) states[states.length - 1] = endGame(last, match.winner, match.endReason);
+  return states;
+};
+
+// Where the local player sits at the table, if they play at all
+const markOf = (state: AnyGameState, username: string): Mark | null =>
+  state.players.X === username ? "X" : state.players.O === username ? "O" : null;
+
+// Follows the game states of one room and turns each finished game into a MatchRecord.
+// A game picked up halfway (after a reload, say) is recorded with the moves it already had.
+export class MatchRecorder {
+  private previous: AnyGameState | null = null;
+  private roomId: string | null = null;
+  private moves: RecordedMove[] = [];
+  private startedAt = 0;
+
+  observe(state: AnyGameState | null, room: { id: string; name: string | null } | null, username: string | null): MatchRecord | null {
+    if (!state || !room || !username || !markOf(state, username)) {
+      this.reset();
+      return null;
+    }
+
+    const now = Date.now();
+    const sameRoom = this.previous && this.roomId === room.id;
+    let played = sameRoom ? movesBetween(this.previous, state) : null;
+    // An accepted takeback removes the latest moves again
+    const undone = !played && sameRoom && !state.gameOver ? movesBetween(state, this.previous) : null;
+    if (undone && undone.length < this.moves.length) {
+      this.moves = this.moves.slice(0, this.moves.length - undone.length);
+      played = [];
+    }
+    if (!played) {
+      // A new game (or a restart): count from the empty board
+      if (state.gameOver) {
+        // Finished before we saw it
+        this.previous = state;
+        this.roomId = room.id;
+        return null;
+      }
+      played = movesBetween(restartState(state), state) ?? [];
+      this.roomId = room.id;
+      this.moves = [];
+      this.startedAt = now;
+    }
+
+    this.moves.push(...played.map(({ move, mark }) => ({ move, mark, playedAt: now })));
+    const finished = !this.previous?.gameOver && state.gameOver;
+    this.previous = state;
+    if (!finished) return null;
+
+    const mark = markOf(state, username);
+    const opponent = state.players[mark === "X" ? "O" : "X"];
+    const series = seriesRecordOf(state, room.id, username);
+    return {
+      id: uuidv4(),
+      roomId: room.id,
+      roomName: room.name,
+      mode: isUltimateState(state) ? "ultimate" : "classic",
+      ...(isUltimateState(state) ? {} : { boardSize: state.boardSize, winLength: state.winLength }),
+      players: { ...state.players },
+      mark,
+      opponent,
+      moves: this.moves,
+      result: resultFor(state.winner, username),
+      winner: state.winner,
+      ...(state.endReason ? { endReason: state.endReason } : {}),
+      ...(series ? { series } : {}),
+      startedAt: this.startedAt,
+      endedAt: now,
+    };
+  }
+
+  private reset() {
+    this.previous = null;
+    this.roomId = null;
+    this.moves = [];
+  }
+}
+
+// Create a singleton instance
+const matchHistory = new MatchHistoryStore();
+
+export default matchHistory;
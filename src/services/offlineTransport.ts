@@ -0,0 +1,408 @@
+import { v4 as uuidv4 } from "uuid";
+import { BotSettings, DEFAULT_DIFFICULTY, DIFFICULTIES } from "@/ai";
+import aiClient, { SearchCancelledError } from "@/ai/aiClient";
+import {
+  AnyGameState,
+  answerProposal,
+  createSeries,
+  createState,
+  DEFAULT_BOARD_CONFIG,
+  IllegalMoveError,
+  Mark,
+  Move,
+  nextGame,
+  otherMark,
+  playMove,
+  propose,
+  ProposalKind,
+  resign,
+} from "@/engine";
+import type { Message, Room, RoomAck } from "@/protocol";
+import type { RoomOptions } from "@/services/socketService";
+import type { BotStatus, GameTransport } from "@/services/gameTransport";
+import localTransport, { isLocalRoomId } from "@/services/localTransport";
+import { RoomEvents } from "@/services/roomEvents";
+import { toast } from "@/hooks/use-toast";
+
+// Used when no server answers. Rooms are played against the minimax bot, except rooms for
+// "another tab on this device", which are handed to localTransport.
+
+const BOT_NAME = "Computer";
+const BOT_MOVE_DELAY = 1000;
+
+const BOT_REPLIES = [
+  "I see what you mean.",
+  "Interesting move!",
+  "Let me think about that.",
+  "Good game so far!",
+  "I'm enjoying this match.",
+  "Your strategy is interesting.",
+  "Let's have a good game!",
+];
+
+// Demo rooms so the lobby is not empty
+const demoRooms: Room[] = [
+  {
+    id: "demo-room-1",
+    name: "Public Game Room",
+    players: ["Player1"],
+    spectators: 0,
+    isPrivate: false,
+  },
+  {
+    id: "demo-room-2",
+    name: "Quick Match",
+    players: ["Player2", "Player3"],
+    spectators: 1,
+    isPrivate: false,
+  },
+];
+
+class OfflineTransport extends RoomEvents implements GameTransport {
+  readonly kind = "offline";
+  private username: string | null = null;
+  private rooms: Room[] = demoRooms;
+  private localRooms: Room[] = [];
+  private roomId: string | null = null;
+  private state: AnyGameState | null = null;
+  // The states before each move of the current game, for takebacks
+  private history: AnyGameState[] = [];
+  private bot: BotSettings | null = null;
+  private thinking = false;
+  // Bumped whenever the game changes under a pending bot move, so its answer is dropped
+  private botTurn = 0;
+  private botStatusListeners = new Set<(status: BotStatus) => void>();
+  private unsubscribers: (() => void)[] = [];
+
+  connect(username: string) {
+    this.username = username;
+    if (this.unsubscribers.length === 0) {
+      // Rooms shared with other tabs report through this transport
+      this.unsubscribers = [
+        localTransport.onGameState((state) => this.emit("game_state", state)),
+        localTransport.onMessage((message) => this.emit("new_message", message)),
+        localTransport.onPlayerJoined((name) => this.emit("player_joined", name)),
+        localTransport.onPlayerLeft((name) => this.emit("player_left", name)),
+        localTransport.onRoomList((rooms) => {
+          this.localRooms = rooms;
+          this.emitRoomList();
+        }),
+      ];
+    }
+    localTransport.connect(username);
+    return Promise.resolve(true);
+  }
+
+  disconnect() {
+    this.leaveRoom();
+    localTransport.disconnect();
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.username = null;
+    this.rooms = demoRooms;
+  }
+
+  // Room actions
+  createRoom(roomName: string, isPrivate: boolean, options: RoomOptions) {
+    if (options.opponent === "local") {
+      this.leaveBotRoom();
+      return localTransport.createRoom(roomName, isPrivate, options);
+    }
+
+    const roomId = `room-${Date.now()}`;
+    this.rooms = [
+      ...this.rooms,
+      {
+        id: roomId,
+        name: roomName,
+        players: [this.username || "You", BOT_NAME],
+        spectators: 0,
+        isPrivate,
+        mode: options.mode ?? "classic",
+        boardSize: options.boardSize,
+        winLength: options.winLength,
+        ...(options.bestOf > 1 ? { bestOf: options.bestOf } : {}),
+      },
+    ];
+    this.emitRoomList();
+
+    this.enterBotRoom(
+      roomId,
+      { mark: "O", difficulty: options.difficulty ?? DEFAULT_DIFFICULTY },
+      { ...createState(options.mode ?? "classic", { X: this.username, O: BOT_NAME }, options), series: createSeries(options.bestOf ?? 1) },
+    );
+    return Promise.resolve<RoomAck>({ roomId, success: true });
+  }
+
+  joinRoom(roomId: string) {
+    return this.enterRoom(roomId).catch((error) => {
+      toast({
+        title: "Failed to join room",
+        description: String(error || "Room not found or full"),
+        variant: "destructive",
+      });
+      throw error;
+    });
+  }
+
+  leaveRoom() {
+    localTransport.leaveRoom();
+    this.leaveBotRoom();
+  }
+
+  joinRandomGame() {
+    // Prefer a player waiting in another tab over the bot
+    const localRoom = localTransport.findOpenRoom();
+    if (localRoom) return this.joinRoom(localRoom.id);
+
+    // Find an available room or create one
+    const availableRoom = this.rooms.find((r) => !r.isPrivate && r.players.length < 2);
+    return availableRoom ? this.joinRoom(availableRoom.id) : this.createRoom("Quick Game", false, DEFAULT_BOARD_CONFIG);
+  }
+
+  // Game actions
+  makeMove(move: Move) {
+    if (!this.roomId) {
+      localTransport.makeMove(move);
+      return;
+    }
+    if (!this.state || !this.bot) return;
+
+    this.play(move, otherMark(this.bot.mark));
+  }
+
+  restartGame() {
+    if (!this.roomId) {
+      localTransport.restartGame();
+      return;
+    }
+    // An unfinished game would be thrown away without counting towards the series
+    if (!this.state?.gameOver || !this.bot) return;
+
+    // The bot follows its name if the players swapped seats
+    const next = nextGame(this.state);
+    if (next.players.X !== this.state.players.X) this.setBot({ ...this.bot, mark: otherMark(this.bot.mark) });
+    this.history = [];
+    this.updateState(next);
+    this.systemMessage("Game has been restarted.");
+  }
+
+  resign() {
+    if (!this.roomId) {
+      localTransport.resign();
+      return;
+    }
+    if (!this.state || !this.bot) return;
+
+    this.tryUpdate("resignation", () => resign(this.state, otherMark(this.bot.mark)));
+  }
+
+  propose(kind: ProposalKind) {
+    if (!this.roomId) {
+      localTransport.propose(kind);
+      return;
+    }
+    if (!this.state || !this.bot) return;
+
+    this.tryUpdate(`${kind} offer`, () => propose(this.state, kind, otherMark(this.bot.mark), this.history));
+  }
+
+  // The bot never makes offers of its own, so there is nothing to answer in its rooms
+  answerProposal(accept: boolean) {
+    if (!this.roomId) localTransport.answerProposal(accept);
+  }
+
+  // Chat actions
+  sendMessage(text: string) {
+    if (!this.roomId) {
+      localTransport.sendMessage(text);
+      return;
+    }
+
+    this.emit("new_message", { id: uuidv4(), sender: this.username || "You", text, timestamp: Date.now() });
+
+    // Simulate a reply after 1-2 seconds
+    const sender = this.opponentName();
+    setTimeout(() => {
+      const reply: Message = {
+        id: uuidv4(),
+        sender,
+        text: BOT_REPLIES[Math.floor(Math.random() * BOT_REPLIES.length)],
+        timestamp: Date.now(),
+      };
+      this.emit("new_message", reply);
+    }, Math.random() * 1000 + 1000);
+  }
+
+  getRoomList() {
+    return Promise.resolve(this.roomList());
+  }
+
+  onBotStatus(callback: (status: BotStatus) => void) {
+    this.botStatusListeners.add(callback);
+    return () => {
+      this.botStatusListeners.delete(callback);
+    };
+  }
+
+  private enterRoom(roomId: string) {
+    if (isLocalRoomId(roomId)) {
+      this.leaveBotRoom();
+      return localTransport.joinRoom(roomId);
+    }
+
+    const room = this.rooms.find((r) => r.id === roomId);
+    if (!room) return Promise.reject("Room not found");
+    if (room.players.length >= 2) return Promise.reject("Room is full");
+
+    this.rooms = this.rooms.map((r) => (r.id === roomId ? { ...r, players: [...r.players, this.username || "You"] } : r));
+    this.emitRoomList();
+
+    // The demo room's host is played by the bot
+    this.enterBotRoom(
+      roomId,
+      { mark: "X", difficulty: DEFAULT_DIFFICULTY },
+      {
+        ...createState(room.mode ?? "classic", { X: room.players[0], O: this.username }, {
+          boardSize: room.boardSize ?? DEFAULT_BOARD_CONFIG.boardSize,
+          winLength: room.winLength ?? DEFAULT_BOARD_CONFIG.winLength,
+        }),
+        series: createSeries(room.bestOf ?? 1),
+      },
+    );
+    this.systemMessage("Welcome to the game room!");
+    return Promise.resolve<RoomAck>({ roomId, success: true });
+  }
+
+  private enterBotRoom(roomId: string, bot: BotSettings, state: AnyGameState) {
+    localTransport.leaveRoom();
+    this.roomId = roomId;
+    this.history = [];
+    this.setBot(bot);
+    this.updateState(state);
+  }
+
+  private leaveBotRoom() {
+    this.cancelBot();
+    this.roomId = null;
+    this.state = null;
+    this.history = [];
+    this.setBot(null);
+  }
+
+  // A stale click (racing the bot's answer or a takeback, say) is refused like any other action
+  private play(move: Move, mark: Mark) {
+    const previous = this.state;
+    this.tryUpdate("move", () => {
+      const next = playMove(previous, move, mark);
+      this.history = [...this.history, previous];
+      return next;
+    });
+  }
+
+  // Like the server, a refused action leaves the game as it was
+  private tryUpdate(action: string, update: () => AnyGameState) {
+    try {
+      this.updateState(update());
+    } catch (error) {
+      if (!(error instanceof IllegalMoveError)) throw error;
+      console.warn(`Rejected ${action}: ${error.message}`);
+    }
+  }
+
+  private updateState(state: AnyGameState) {
+    this.cancelBot();
+    this.state = state;
+    this.emit("game_state", state);
+    this.playBotTurn();
+  }
+
+  // The search runs in a worker; quick answers are still held back a little so the bot does not feel instant
+  private playBotTurn() {
+    const { state, bot } = this;
+    if (!state || !bot || state.gameOver) return;
+
+    // An offer is answered before anything else, even on the bot's own turn
+    if (state.proposal && !state.proposal.declined) {
+      this.answerAsBot(state, bot);
+      return;
+    }
+    if (state.currentTurn !== bot.mark) return;
+
+    const turn = this.botTurn;
+    const startedAt = Date.now();
+    this.setThinking(true);
+
+    aiClient
+      .requestMove(state, bot.difficulty)
+      .then((move) => {
+        setTimeout(() => {
+          if (turn !== this.botTurn) return;
+          this.setThinking(false);
+          this.play(move, bot.mark);
+        }, Math.max(0, BOT_MOVE_DELAY - (Date.now() - startedAt)));
+      })
+      .catch((error) => {
+        if (error instanceof SearchCancelledError) return;
+        console.error("Bot failed to move:", error);
+        this.setThinking(false);
+      });
+  }
+
+  // Easier bots grant takebacks and take draws; the stronger ones play on
+  private answerAsBot(state: AnyGameState, bot: BotSettings) {
+    const turn = this.botTurn;
+    const { forgiving } = DIFFICULTIES[bot.difficulty];
+
+    setTimeout(() => {
+      if (turn !== this.botTurn) return;
+      const answered = answerProposal(state, bot.mark, forgiving, this.history);
+      this.history = answered.history;
+      this.updateState(answered.state);
+    }, BOT_MOVE_DELAY);
+  }
+
+  private cancelBot() {
+    this.botTurn++;
+    aiClient.cancel();
+    this.setThinking(false);
+  }
+
+  private setBot(bot: BotSettings | null) {
+    this.bot = bot;
+    this.emitBotStatus();
+  }
+
+  private setThinking(thinking: boolean) {
+    if (this.thinking === thinking) return;
+    this.thinking = thinking;
+    this.emitBotStatus();
+  }
+
+  private emitBotStatus() {
+    const status: BotStatus = { bot: this.bot, thinking: this.thinking };
+    this.botStatusListeners.forEach((listener) => listener(status));
+  }
+
+  private opponentName() {
+    const { players } = this.state ?? { players: { X: null, O: null } };
+    return (players.X === this.username ? players.O : players.X) || "Opponent";
+  }
+
+  private systemMessage(text: string) {
+    this.emit("new_message", { id: uuidv4(), sender: "System", text, timestamp: Date.now() });
+  }
+
+  private roomList() {
+    return [...this.localRooms, ...this.rooms];
+  }
+
+  private emitRoomList() {
+    this.emit("room_list", this.roomList());
+  }
+}
+
+// Create a singleton instance
+const offlineTransport = new OfflineTransport();
+
+export default offlineTransport;
@@ -0,0 +1,418 @@
+import { v4 as uuidv4 } from "uuid";
+import { z, ZodType, ZodTypeDef } from "zod";
+import { AnyGameState, Move, ProposalKind } from "@/engine";
+import type { Message, RoomAck } from "@/protocol";
+import {
+  describeIssues,
+  gameStateSchema,
+  messageSchema,
+  moveSchema,
+  proposalKindSchema,
+  roomAckSchema,
+  usernameSchema,
+} from "@/protocol/schemas";
+import type { RoomOptions } from "@/services/socketService";
+import diagnostics from "@/services/diagnostics";
+import { RoomHost } from "@/services/roomHost";
+import { RoomEvents } from "@/services/roomEvents";
+import type { RoomTransport } from "@/services/gameTransport";
+
+// A match between two browsers over a WebRTC data channel, with no server at all. Signaling
+// is manual: the host shows an offer code (or QR code), the guest pastes it and shows back an
+// answer code, and the host pastes that. The host's browser then plays the server's part, as
+// in the cross-tab transport.
+
+const ROOM_PREFIX = "peer-";
+// STUN only reveals each side's public address; the game data never passes through it
+const ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+// Codes are produced once gathering ends, so they carry every candidate (no trickle ICE)
+const ICE_GATHERING_TIMEOUT = 5000;
+const HOST_PEER = "host";
+const GUEST_PEER = "guest";
+
+type PeerPacket =
+  | { type: "hello"; username: string }
+  | { type: "join_result"; ack: RoomAck }
+  | { type: "move"; move: Move }
+  | { type: "restart" }
+  | { type: "resign" }
+  | { type: "propose"; kind: ProposalKind }
+  | { type: "answer_proposal"; accept: boolean }
+  | { type: "chat"; text: string }
+  | { type: "leave" }
+  | { type: "game_state"; state: AnyGameState }
+  | { type: "new_message"; message: Message }
+  | { type: "player_joined"; username: string }
+  | { type: "player_left"; username: string };
+
+// The other browser could send anything, so packets are checked before the host or the guest
+// acts on them
+const peerPacketSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("hello"), username: usernameSchema }),
+  z.object({ type: z.literal("join_result"), ack: roomAckSchema }),
+  z.object({ type: z.literal("move"), move: moveSchema }),
+  z.object({ type: z.literal("restart") }),
+  z.object({ type: z.literal("resign") }),
+  z.object({ type: z.literal("propose"), kind: proposalKindSchema }),
+  z.object({ type: z.literal("answer_proposal"), accept: z.boolean() }),
+  z.object({ type: z.literal("chat"), text: z.string() }),
+  z.object({ type: z.literal("leave") }),
+  z.object({ type: z.literal("game_state"), state: gameStateSchema }),
+  z.object({ type: z.literal("new_message"), message: messageSchema }),
+  z.object({ type: z.literal("player_joined"), username: usernameSchema }),
+  z.object({ type: z.literal("player_left"), username: usernameSchema }),
+]) as ZodType<PeerPacket, ZodTypeDef, unknown>;
+
+// null for anything that is not a packet this version understands
+const parsePacket = (data: unknown): PeerPacket | null => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(String(data));
+  } catch {
+    payload = data;
+  }
+
+  const result = peerPacketSchema.safeParse(payload);
+  if (result.success) return result.data;
+  diagnostics.reportRejected("peer packet", payload, describeIssues(result.error));
+  return null;
+};
+
+export class SignalingCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignalingCodeError";
+  }
+}
+
+// A code to show the other player, and a promise settled once they are seated in the room
+export interface PeerInvite {
+  code: string;
+  joined: Promise<RoomAck>;
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (char) => char.charCodeAt(0));
+
+const transform = async (bytes: Uint8Array, stream: TransformStream<Uint8Array, Uint8Array>) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// SDP compresses to well under half, which keeps the QR code scannable. "z" marks compressed
+// codes, "j" plain ones from browsers without CompressionStream.
+const encodeDescription = async (description: RTCSessionDescriptionInit) => {
+  const json = new TextEncoder().encode(JSON.stringify({ type: description.type, sdp: description.sdp }));
+  if (typeof CompressionStream === "undefined") return `j${toBase64Url(json)}`;
+  return `z${toBase64Url(await transform(json, new CompressionStream("deflate-raw")))}`;
+};
+
+const decodeDescription = async (code: string, expected: RTCSdpType): Promise<RTCSessionDescriptionInit> => {
+  const trimmed = code.replace(/\s+/g, "");
+  let description: RTCSessionDescriptionInit;
+
+  try {
+    const bytes = fromBase64Url(trimmed.slice(1));
+    const json = trimmed.startsWith("z") ? await transform(bytes, new DecompressionStream("deflate-raw")) : bytes;
+    description = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new SignalingCodeError("That code could not be read. Copy the whole code and try again.");
+  }
+
+  if (description?.type !== expected || typeof description.sdp !== "string") {
+    throw new SignalingCodeError(expected === "offer" ? "That is not an invite code." : "That is not an answer code.");
+  }
+  return description;
+};
+
+const waitForIceGathering = (connection: RTCPeerConnection) =>
+  new Promise<void>((resolve) => {
+    if (connection.iceGatheringState === "complete") {
+      resolve();
+      return;
+    }
+    const timeout = setTimeout(resolve, ICE_GATHERING_TIMEOUT);
+    connection.addEventListener("icegatheringstatechange", () => {
+      if (connection.iceGatheringState === "complete") {
+        clearTimeout(timeout);
+        resolve();
+      }
+    });
+  });
+
+class PeerTransport extends RoomEvents implements RoomTransport {
+  readonly kind = "peer";
+  private username: string | null = null;
+  private connection: RTCPeerConnection | null = null;
+  private channel: RTCDataChannel | null = null;
+  // Set on the hosting side only
+  private host: RoomHost | null = null;
+  private roomId: string | null = null;
+  private opponent: string | null = null;
+  private settleJoin: ((ack: RoomAck) => void) | null = null;
+
+  get isSupported() {
+    return typeof RTCPeerConnection !== "undefined";
+  }
+
+  get isHosting() {
+    return this.host !== null;
+  }
+
+  connect(username: string) {
+    this.username = username;
+    return Promise.resolve(this.isSupported);
+  }
+
+  disconnect() {
+    this.leaveRoom();
+    this.username = null;
+  }
+
+  // Host side: open a room and produce the invite for the other player
+  async createRoom(roomName: string, isPrivate: boolean, options: RoomOptions): Promise<PeerInvite> {
+    this.leaveRoom();
+
+    this.host = RoomHost.create(`${ROOM_PREFIX}${uuidv4().slice(0, 8)}`, roomName, isPrivate, options, HOST_PEER, this.username);
+    this.roomId = this.host.id;
+    const joined = this.expectJoin();
+
+    const connection = this.openConnection();
+    this.attachChannel(connection.createDataChannel("game", { ordered: true }));
+    await connection.setLocalDescription(await connection.createOffer());
+    await waitForIceGathering(connection);
+
+    return { code: await encodeDescription(connection.localDescription), joined };
+  }
+
+  // Host side: finish the handshake with the guest's answer
+  async acceptAnswer(code: string) {
+    if (!this.connection || !this.host) throw new SignalingCodeError("Create an invite first.");
+    await this.connection.setRemoteDescription(await decodeDescription(code, "answer"));
+  }
+
+  // Guest side: answer an invite. The room is joined once the connection opens.
+  async joinRoom(offerCode: string): Promise<PeerInvite> {
+    const offer = await decodeDescription(offerCode, "offer");
+    this.leaveRoom();
+
+    const joined = this.expectJoin();
+    const connection = this.openConnection();
+    connection.addEventListener("datachannel", (event) => this.attachChannel(event.channel));
+    await connection.setRemoteDescription(offer);
+    await connection.setLocalDescription(await connection.createAnswer());
+    await waitForIceGathering(connection);
+
+    return { code: await encodeDescription(connection.localDescription), joined };
+  }
+
+  leaveRoom() {
+    if (this.channel?.readyState === "open") this.send({ type: "leave" });
+    this.channel?.close();
+    this.connection?.close();
+    this.channel = null;
+    this.connection = null;
+    this.host = null;
+    this.roomId = null;
+    this.opponent = null;
+    this.settleJoin?.({ success: false, error: "Cancelled" });
+    this.settleJoin = null;
+  }
+
+  // Game actions
+  makeMove(move: Move) {
+    this.request({ type: "move", move });
+  }
+
+  restartGame() {
+    this.request({ type: "restart" });
+  }
+
+  resign() {
+    this.request({ type: "resign" });
+  }
+
+  propose(kind: ProposalKind) {
+    this.request({ type: "propose", kind });
+  }
+
+  answerProposal(accept: boolean) {
+    this.request({ type: "answer_proposal", accept });
+  }
+
+  // Chat actions
+  sendMessage(text: string) {
+    this.request({ type: "chat", text });
+  }
+
+  private expectJoin() {
+    return new Promise<RoomAck>((resolve, reject) => {
+      this.settleJoin = (ack) => {
+        this.settleJoin = null;
+        if (ack.success) {
+          resolve(ack);
+        } else {
+          reject(ack.error);
+        }
+      };
+    });
+  }
+
+  private openConnection() {
+    const connection = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    connection.addEventListener("connectionstatechange", () => {
+      if (connection !== this.connection) return;
+      if (connection.connectionState === "failed" || connection.connectionState === "closed") {
+        this.handleLost();
+      }
+    });
+    this.connection = connection;
+    return connection;
+  }
+
+  private attachChannel(channel: RTCDataChannel) {
+    this.channel = channel;
+    channel.addEventListener("open", () => {
+      if (!this.host) this.send({ type: "hello", username: this.username });
+    });
+    channel.addEventListener("message", (event) => {
+      const packet = parsePacket(event.data);
+      if (packet) this.receive(packet);
+    });
+    channel.addEventListener("close", () => {
+      if (channel === this.channel) this.handleLost();
+    });
+  }
+
+  private send(packet: PeerPacket) {
+    if (this.channel?.readyState === "open") this.channel.send(JSON.stringify(packet));
+  }
+
+  // Requests go to the host, which may be this very browser
+  private request(packet: PeerPacket) {
+    if (this.host) {
+      this.handleAsHost(HOST_PEER, packet);
+    } else {
+      this.send(packet);
+    }
+  }
+
+  private receive(packet: PeerPacket) {
+    if (this.host) {
+      this.handleAsHost(GUEST_PEER, packet);
+      return;
+    }
+
+    switch (packet.type) {
+      case "join_result":
+        if (packet.ack.success) this.roomId = packet.ack.roomId;
+        this.settleJoin?.(packet.ack);
+        break;
+      case "game_state":
+        this.opponent = packet.state.players.X === this.username ? packet.state.players.O : packet.state.players.X;
+        this.emit("game_state", packet.state);
+        break;
+      case "new_message":
+        this.emit("new_message", packet.message);
+        break;
+      case "player_joined":
+      case "player_left":
+        if (packet.username !== this.username) this.emit(packet.type, packet.username);
+        break;
+    }
+  }
+
+  // Host side: the same checks the dev server makes
+  private handleAsHost(peerId: string, packet: PeerPacket) {
+    const host = this.host;
+
+    switch (packet.type) {
+      case "hello": {
+        const ack = host.seat(peerId, packet.username);
+        this.send({ type: "join_result", ack });
+        if (!ack.success) return;
+
+        this.opponent = packet.username;
+        this.broadcast({ type: "player_joined", username: packet.username });
+        this.broadcastState();
+        host.messages.forEach((message) => this.send({ type: "new_message", message }));
+        this.settleJoin?.({ success: true, roomId: host.id });
+        break;
+      }
+      case "leave": {
+        const username = host.unseat(peerId);
+        if (!username) return;
+        this.opponent = null;
+        this.broadcast({ type: "player_left", username });
+        this.broadcastState();
+        break;
+      }
+      case "move":
+        host.move(peerId, packet.move);
+        // Sent either way, which also puts a rejected sender back in sync
+        this.broadcastState();
+        break;
+      case "restart":
+        host.restart(peerId);
+        this.broadcastState();
+        break;
+      case "resign":
+        host.resign(peerId);
+        this.broadcastState();
+        break;
+      case "propose":
+        host.propose(peerId, packet.kind);
+        this.broadcastState();
+        break;
+      case "answer_proposal":
+        host.answerProposal(peerId, packet.accept);
+        this.broadcastState();
+        break;
+      case "chat": {
+        const message = host.chat(peerId, packet.text);
+        if (message) this.broadcast({ type: "new_message", message });
+        break;
+      }
+    }
+  }
+
+  // Room events reach the guest over the channel and the host directly
+  private broadcast(packet: Extract<PeerPacket, { type: "game_state" | "new_message" | "player_joined" | "player_left" }>) {
+    this.send(packet);
+    switch (packet.type) {
+      case "game_state":
+        this.emit("game_state", packet.state);
+        break;
+      case "new_message":
+        this.emit("new_message", packet.message);
+        break;
+      default:
+        if (packet.username !== this.username) this.emit(packet.type, packet.username);
+    }
+  }
+
+  private broadcastState() {
+    if (this.host) this.broadcast({ type: "game_state", state: this.host.state });
+  }
+
+  // Nobody to hand the room to: the host keeps playing alone, the guest is left without a host
+  private handleLost() {
+    const opponent = this.opponent;
+    this.channel = null;
+    this.opponent = null;
+    this.settleJoin?.({ success: false, error: "The connection could not be established" });
+
+    if (!opponent) return;
+    if (this.host) {
+      this.host.unseat(GUEST_PEER);
+      this.broadcastState();
+    }
+    this.emit("player_left", opponent);
+  }
+}
+
+// Create a singleton instance
+const peerTransport = new PeerTransport();
+
+export default peerTransport;
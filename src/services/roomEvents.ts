@@ -0,0 +1,42 @@
+import type { ServerToClientEvents } from "@/protocol";
+
+type RoomEventName = keyof Pick<ServerToClientEvents, "game_state" | "room_list" | "new_message" | "player_joined" | "player_left">;
+
+// The listener half of SocketService, for transports that produce the same events
+// themselves instead of receiving them from a server
+export abstract class RoomEvents {
+  private listeners = new Map<RoomEventName, Set<(payload: never) => void>>();
+
+  onGameState(callback: ServerToClientEvents["game_state"]) {
+    return this.subscribe("game_state", callback);
+  }
+
+  onRoomList(callback: ServerToClientEvents["room_list"]) {
+    return this.subscribe("room_list", callback);
+  }
+
+  onMessage(callback: ServerToClientEvents["new_message"]) {
+    return this.subscribe("new_message", callback);
+  }
+
+  onPlayerJoined(callback: ServerToClientEvents["player_joined"]) {
+    return this.subscribe("player_joined", callback);
+  }
+
+  onPlayerLeft(callback: ServerToClientEvents["player_left"]) {
+    return this.subscribe("player_left", callback);
+  }
+
+  protected emit<E extends RoomEventName>(event: E, payload: Parameters<ServerToClientEvents[E]>[0]) {
+    this.listeners.get(event)?.forEach((callback) => (callback as (data: typeof payload) => void)(payload));
+  }
+
+  private subscribe<E extends RoomEventName>(event: E, callback: ServerToClientEvents[E]) {
+    const callbacks = this.listeners.get(event) ?? new Set();
+    callbacks.add(callback);
+    this.listeners.set(event, callbacks);
+    return () => {
+      callbacks.delete(callback);
+    };
+  }
+}
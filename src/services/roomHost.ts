@@ -0,0 +1,201 @@
+import { v4 as uuidv4 } from "uuid";
+import {
+  AnyGameState,
+  answerProposal,
+  boardConfigOf,
+  createSeries,
+  createState,
+  IllegalMoveError,
+  isUltimateState,
+  Mark,
+  Move,
+  nextGame,
+  nextSeries,
+  playMove,
+  propose,
+  ProposalKind,
+  resign,
+  restartState,
+} from "@/engine";
+import type { Message, Room, RoomAck } from "@/protocol";
+import type { RoomOptions } from "@/services/socketService";
+
+// The server's side of a room, for transports where one of the players' browsers is the
+// authority (cross-tab and peer-to-peer). Players are told apart by a transport-level peer
+// id rather than by name, since the name is whatever the other side claims.
+
+const MAX_MESSAGES = 100;
+
+// Plain data, so a room can be handed to another host
+export interface HostedRoom {
+  id: string;
+  name: string;
+  isPrivate: boolean;
+  state: AnyGameState;
+  // The states before each move of the current game, for takebacks
+  history: AnyGameState[];
+  messages: Message[];
+  // Which peer holds each seat
+  seats: Record<Mark, string | null>;
+}
+
+export class RoomHost {
+  constructor(public room: HostedRoom) {}
+
+  // A new room with its creator sitting as X
+  static create(id: string, roomName: string, isPrivate: boolean, options: RoomOptions, peerId: string, username: string) {
+    const { mode = "classic", boardSize, winLength, bestOf = 1 } = options;
+    return new RoomHost({
+      id,
+      name: roomName.trim() || "Untitled Room",
+      isPrivate,
+      state: { ...createState(mode, { X: username, O: null }, { boardSize, winLength }), series: createSeries(bestOf) },
+      history: [],
+      messages: [],
+      seats: { X: peerId, O: null },
+    });
+  }
+
+  get id() {
+    return this.room.id;
+  }
+
+  get state() {
+    return this.room.state;
+  }
+
+  get messages() {
+    return this.room.messages;
+  }
+
+  markOf(peerId: string): Mark | null {
+    if (this.room.seats.X === peerId) return "X";
+    if (this.room.seats.O === peerId) return "O";
+    return null;
+  }
+
+  // The peer in the other seat, if any
+  opponentOf(peerId: string) {
+    const mark = this.markOf(peerId);
+    return mark ? this.room.seats[mark === "X" ? "O" : "X"] : null;
+  }
+
+  seat(peerId: string, username: string): RoomAck {
+    if (this.markOf(peerId)) return { success: true, roomId: this.room.id };
+
+    const { players } = this.room.state;
+    if (players.X === username || players.O === username) {
+      return { success: false, error: `${username} is already playing in this room. Join with another name.` };
+    }
+    if (players.X && players.O) return { success: false, error: "Room is full" };
+
+    const seat: Mark = players.X ? "O" : "X";
+    this.room.seats = { ...this.room.seats, [seat]: peerId };
+    this.room.state = { ...this.room.state, players: { ...players, [seat]: username } };
+    return { success: true, roomId: this.room.id };
+  }
+
+  // Frees the peer's seat and starts over for whoever sits down next. Returns the name that left.
+  unseat(peerId: string) {
+    const mark = this.markOf(peerId);
+    if (!mark) return null;
+
+    const { players, series } = this.room.state;
+    const username = players[mark];
+    this.room.seats = { ...this.room.seats, [mark]: null };
+    // A new opponent starts a new series
+    this.room.state = {
+      ...restartState(this.room.state),
+      players: { ...players, [mark]: null },
+      ...(series ? { series: nextSeries(series) } : {}),
+    };
+    this.room.history = [];
+    return username;
+  }
+
+  // False when the move was rejected; the caller should resend the state either way
+  move(peerId: string, move: Move) {
+    return this.update(peerId, "move", (mark) => {
+      const previous = this.room.state;
+      this.room.state = playMove(previous, move, mark);
+      this.room.history = [...this.room.history, previous];
+    });
+  }
+
+  // Resigning and offers are checked and answered like moves
+  resign(peerId: string) {
+    return this.update(peerId, "resignation", (mark) => {
+      this.room.state = resign(this.room.state, mark);
+    });
+  }
+
+  propose(peerId: string, kind: ProposalKind) {
+    // The kind comes from the other browser, which could send anything
+    if (kind !== "draw" && kind !== "takeback") return false;
+    return this.update(peerId, `${kind} offer`, (mark) => {
+      this.room.state = propose(this.room.state, kind, mark, this.room.history);
+    });
+  }
+
+  answerProposal(peerId: string, accept: boolean) {
+    return this.update(peerId, "answer", (mark) => {
+      const answered = answerProposal(this.room.state, mark, accept, this.room.history);
+      this.room.state = answered.state;
+      this.room.history = answered.history;
+    });
+  }
+
+  // The next game of the series; the peers follow their names if they swapped seats. False
+  // for anyone without a seat, or while the game is still on, since starting over would throw
+  // it away uncounted.
+  restart(peerId: string) {
+    const previous = this.room.state;
+    if (!this.markOf(peerId) || !previous.gameOver) return false;
+
+    this.room.state = nextGame(previous);
+    this.room.history = [];
+    if (this.room.state.players.X !== previous.players.X) {
+      this.room.seats = { X: this.room.seats.O, O: this.room.seats.X };
+    }
+    return true;
+  }
+
+  // The sender is always the seat's own name, whatever the request claims
+  chat(peerId: string, text: string) {
+    const mark = this.markOf(peerId);
+    const trimmed = text.trim();
+    if (!mark || !trimmed) return null;
+
+    const message: Message = { id: uuidv4(), sender: this.room.state.players[mark], text: trimmed, timestamp: Date.now() };
+    this.room.messages = [...this.room.messages, message].slice(-MAX_MESSAGES);
+    return message;
+  }
+
+  summarize(): Room {
+    const { state } = this.room;
+    return {
+      id: this.room.id,
+      name: this.room.name,
+      players: [state.players.X, state.players.O].filter(Boolean),
+      spectators: 0,
+      isPrivate: this.room.isPrivate,
+      mode: isUltimateState(state) ? "ultimate" : "classic",
+      ...(isUltimateState(state) ? {} : boardConfigOf(state)),
+      ...(state.series?.bestOf > 1 ? { bestOf: state.series.bestOf } : {}),
+    };
+  }
+
+  private update(peerId: string, action: string, change: (mark: Mark) => void) {
+    const mark = this.markOf(peerId);
+    if (!mark) return false;
+
+    try {
+      change(mark);
+      return true;
+    } catch (error) {
+      if (!(error instanceof IllegalMoveError)) throw error;
+      console.warn(`Rejected ${action}: ${error.message}`);
+      return false;
+    }
+  }
+}
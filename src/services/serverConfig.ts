@@ -0,0 +1,170 @@
+// Which game servers the client may connect to. The list comes from VITE_GAME_SERVERS at build
+// time and can be overridden at runtime from the server settings dialog; overrides, the pinned
+// server and the last server connected to are kept in localStorage.
+
+// Started with `npm run server`; see server/index.ts
+export const LOCAL_SERVER = "http://localhost:3001";
+
+// Public servers used when the build does not configure its own
+const HOSTED_SERVERS = [
+  "https://tic-tac-toe-server-production.up.railway.app",
+  "https://tictactoe-socket-server.onrender.com",
+  "https://tictactoe-server.adaptable.app",
+];
+
+const SERVERS_KEY = "tictactoe_servers";
+const PINNED_KEY = "tictactoe_pinned_server";
+const ACTIVE_KEY = "tictactoe_server";
+
+const PROBE_TIMEOUT = 3000;
+
+export interface ServerProbe {
+  url: string;
+  reachable: boolean;
+  // Round trip in milliseconds, null when unreachable
+  latency: number | null;
+}
+
+export interface ServerConfig {
+  servers: string[];
+  // Always tried first when set; otherwise servers are ranked by latency
+  pinned: string | null;
+  // The server of the current or most recent connection
+  active: string | null;
+}
+
+// Accepts comma, whitespace or newline separated URLs and drops duplicates and trailing slashes
+export const parseServerList = (value: string | undefined) => {
+  const urls = (value ?? "")
+    .split(/[\s,]+/)
+    .map((url) => url.trim().replace(/\/+$/, ""))
+    .filter(Boolean);
+  return [...new Set(urls)];
+};
+
+export const isValidServerUrl = (url: string) => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+// "https://example.com:8080" -> "example.com:8080", for compact display
+export const serverLabel = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+// Build-time list. Development builds without one try the local server first.
+export const defaultServers = () => {
+  const configured = parseServerList(import.meta.env.VITE_GAME_SERVERS);
+  if (configured.length > 0) return configured;
+  return [...(import.meta.env.DEV ? [LOCAL_SERVER] : []), ...HOSTED_SERVERS];
+};
+
+// Times a socket.io polling handshake request. The response is opaque ("no-cors"), so this only
+// tells whether the host answers and how fast, which is all the ranking needs.
+export const probeServer = async (url: string): Promise<ServerProbe> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+  const startedAt = performance.now();
+
+  try {
+    await fetch(`${url}/socket.io/?EIO=4&transport=polling&t=${Date.now()}`, {
+      mode: "no-cors",
+      cache: "no-store",
+      signal: controller.signal,
+    });
+    return { url, reachable: true, latency: Math.round(performance.now() - startedAt) };
+  } catch {
+    return { url, reachable: false, latency: null };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+type Listener = () => void;
+
+class ServerConfigStore {
+  private config: ServerConfig;
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    const stored = localStorage.getItem(SERVERS_KEY);
+    this.config = {
+      servers: stored ? parseServerList(stored) : defaultServers(),
+      pinned: localStorage.getItem(PINNED_KEY),
+      active: localStorage.getItem(ACTIVE_KEY),
+    };
+  }
+
+  get servers() {
+    return this.config.servers;
+  }
+
+  setServers(servers: string[], pinned: string | null) {
+    const list = parseServerList(servers.join(","));
+    localStorage.setItem(SERVERS_KEY, list.join(","));
+    this.update({ servers: list, pinned: pinned && list.includes(pinned) ? pinned : null });
+  }
+
+  // Back to the build-time list, ranked automatically
+  reset() {
+    localStorage.removeItem(SERVERS_KEY);
+    this.update({ servers: defaultServers(), pinned: null });
+  }
+
+  setActive(url: string | null) {
+    this.update({ active: url });
+  }
+
+  // Probes every server at once. The pinned server leads if it answers, then the rest by
+  // latency; unreachable servers stay at the end since a probe can fail where a socket succeeds.
+  async rankServers() {
+    const probes = await Promise.all(this.config.servers.map(probeServer));
+    const { pinned } = this.config;
+
+    return probes
+      .sort((a, b) => {
+        if (a.reachable !== b.reachable) return a.reachable ? -1 : 1;
+        if (a.url === pinned || b.url === pinned) return a.url === pinned ? -1 : 1;
+        return (a.latency ?? 0) - (b.latency ?? 0);
+      })
+      .map((probe) => probe.url);
+  }
+
+  // Shaped for React's useSyncExternalStore
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.config;
+
+  private update(changes: Partial<ServerConfig>) {
+    this.config = { ...this.config, ...changes };
+    this.persist(PINNED_KEY, this.config.pinned);
+    this.persist(ACTIVE_KEY, this.config.active);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private persist(key: string, value: string | null) {
+    if (value) {
+      localStorage.setItem(key, value);
+    } else {
+      localStorage.removeItem(key);
+    }
+  }
+}
+
+// Create a singleton instance
+const serverConfig = new ServerConfigStore();
+
+export default serverConfig;
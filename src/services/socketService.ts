@@ -1,46 +1,80 @@
 import { io, Socket } from "socket.io-client";
 import { toast } from "@/hooks/use-toast";
-
-// Use multiple server options for better reliability
-const SERVER_OPTIONS = [
-  "https://tic-tac-toe-server-production.up.railway.app",
-  "https://tictactoe-socket-server.onrender.com",
-  "https://tictactoe-server.adaptable.app"
-];
-
-export interface GameState {
-  board: Array<string | null>;
-  currentTurn: "X" | "O";
-  gameOver: boolean;
-  winner: string | null;
-  winningCombination: number[] | null;
-  players: {
-    X: string | null;
-    O: string | null;
-  };
-}
-
-export interface Message {
-  id: string;
-  sender: string;
-  text: string;
-  timestamp: number;
-}
-
-export interface Room {
-  id: string;
-  name: string;
-  players: string[];
-  spectators: number;
-  isPrivate: boolean;
+import type { AnyGameState, BoardConfig, GameMode, GameState, Move, ProposalKind, TimeControl, UltimateGameState } from "@/engine";
+import type { Difficulty } from "@/ai";
+import {
+  ClientToServerEvents,
+  HandshakeQuery,
+  LeaderboardPage,
+  LeaderboardQuery,
+  Message,
+  PROTOCOL_VERSION,
+  ResumeAck,
+  Room,
+  RoomAck,
+  ServerToClientEvents,
+} from "@/protocol";
+import { describeIssues, leaderboardPageSchema, resumeAckSchema, roomAckSchema, roomListSchema, serverEventSchemas } from "@/protocol/schemas";
+import diagnostics from "@/services/diagnostics";
+import serverConfig from "@/services/serverConfig";
+import type { GameTransport } from "@/services/gameTransport";
+import type { ZodType, ZodTypeDef } from "zod";
+
+export type { AnyGameState, GameState, UltimateGameState, Message, ResumeAck, Room, RoomAck };
+
+// "reconnecting" covers the gap between a dropped socket and the resumed session
+export type ConnectionStatus = "connected" | "reconnecting" | "offline";
+
+type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+type ServerEvent = keyof ServerToClientEvents;
+// socket.io's typed on/off cannot follow a generic event name, so subscriptions go through the untyped signature
+type UntypedListener = Parameters<Socket["on"]>[1];
+
+// Per tab, so two tabs playing each other keep separate seats, yet kept across reloads
+const SESSION_KEY = "tictactoe_session";
+const RECONNECT_DELAY = 2000;
+
+// Who an offline room is played against: the bot, or a player in another tab
+export type Opponent = "bot" | "local";
+
+// Settings chosen in the create-room form
+export interface RoomOptions extends BoardConfig {
+  mode?: GameMode;
+  // Games per series; the first move alternates between games
+  bestOf?: number;
+  // Only server rooms can be rated or timed
+  rated?: boolean;
+  timeControl?: TimeControl;
+  // The rest only apply to offline rooms
+  opponent?: Opponent;
+  difficulty?: Difficulty;
 }
 
-class SocketService {
-  private socket: Socket | null = null;
+class SocketService implements GameTransport {
+  readonly kind = "server";
+  private socket: GameSocket | null = null;
   private username: string | null = null;
+  // Subscriptions outlive individual sockets and are re-attached whenever a new one is opened.
+  // Each entry is a validating wrapper around the callback handed to subscribe().
+  private listeners = new Map<ServerEvent, Set<UntypedListener>>();
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 3;
   private currentServerIndex = 0;
+  // Configured servers, best first, as ranked when connect() was called
+  private candidates: string[] = [];
+  private sessionToken = sessionStorage.getItem(SESSION_KEY);
+  private status: ConnectionStatus = "offline";
+  private statusListeners = new Set<(status: ConnectionStatus) => void>();
+  private resumeListeners = new Set<(response: ResumeAck) => void>();
+
+  constructor() {
+    this.subscribe("session", ({ token }) => {
+      this.sessionToken = token;
+      sessionStorage.setItem(SESSION_KEY, token);
+      // The built-in reconnection reuses the handshake query, so it has to carry the new token
+      if (this.socket) this.socket.io.opts.query = { ...this.socket.io.opts.query, sessionToken: token };
+    });
+  }
 
   connect(username: string) {
     this.username = username;
@@ -51,12 +85,21 @@ class SocketService {
       return Promise.resolve(true);
     }
 
-    return this.tryConnect();
+    return serverConfig.rankServers().then((ranked) => {
+      this.candidates = ranked;
+      this.reconnectAttempts = 0;
+      if (ranked.length === 0) {
+        console.log("No game servers configured. Using offline mode.");
+        return false;
+      }
+      console.log("Servers by latency:", ranked);
+      return this.tryConnect();
+    });
   }
 
   private tryConnect(serverIndex = 0): Promise<boolean> {
     this.currentServerIndex = serverIndex;
-    const serverUrl = SERVER_OPTIONS[serverIndex];
+    const serverUrl = this.candidates[serverIndex];
     
     console.log(`Attempting to connect to server: ${serverUrl}`);
     
@@ -69,14 +112,17 @@ class SocketService {
         }
         
         // Connect to the server
+        const query: HandshakeQuery = { username: this.username, protocolVersion: String(PROTOCOL_VERSION) };
+        if (this.sessionToken) query.sessionToken = this.sessionToken;
         this.socket = io(serverUrl, {
-          query: { username: this.username },
+          query,
           transports: ["websocket", "polling"],
           autoConnect: true,
           reconnectionAttempts: 2,
           timeout: 5000, // 5 second timeout
           reconnectionDelay: 1000,
         });
+        this.attachListeners(this.socket);
 
         // Handle connection timeout
         const connectTimeout = setTimeout(() => {
@@ -91,7 +137,15 @@ class SocketService {
           console.log(`Connected to server: ${serverUrl}`);
           clearTimeout(connectTimeout);
           this.reconnectAttempts = 0;
+          serverConfig.setActive(serverUrl);
           resolve(true);
+
+          // A session from before means there may be a room to go back to
+          if (this.sessionToken) {
+            this.resumeSession();
+          } else {
+            this.setStatus("connected");
+          }
         });
 
         // Handle connection errors
@@ -106,18 +160,15 @@ class SocketService {
           
           // Only attempt reconnection if it wasn't an intentional disconnect
           if (reason !== "io client disconnect") {
+            this.setStatus("reconnecting");
             setTimeout(() => {
               if (this.username) {
                 console.log("Attempting to reconnect...");
-                this.tryConnect(this.currentServerIndex);
+                this.reconnect();
               }
-            }, 2000);
+            }, RECONNECT_DELAY);
           }
         });
-
-        this.socket.on("error", (error) => {
-          console.error("Socket error:", error);
-        });
       } catch (error) {
         console.error("Socket initialization error:", error);
         this.tryNextServer(resolve);
@@ -127,12 +178,12 @@ class SocketService {
 
   private tryNextServer(resolve: (value: boolean) => void) {
     this.reconnectAttempts++;
-    const nextServerIndex = (this.currentServerIndex + 1) % SERVER_OPTIONS.length;
+    const nextServerIndex = (this.currentServerIndex + 1) % this.candidates.length;
     
-    console.log(`Trying next server (${this.reconnectAttempts}/${this.maxReconnectAttempts * SERVER_OPTIONS.length})`);
+    console.log(`Trying next server (${this.reconnectAttempts}/${this.maxReconnectAttempts * this.candidates.length})`);
     
     // If we've tried all servers up to the maximum attempts
-    if (this.reconnectAttempts >= this.maxReconnectAttempts * SERVER_OPTIONS.length) {
+    if (this.reconnectAttempts >= this.maxReconnectAttempts * this.candidates.length) {
       console.log("All connection attempts failed. Using offline mode.");
       resolve(false);
       return;
@@ -142,28 +193,64 @@ class SocketService {
     this.tryConnect(nextServerIndex).then(resolve);
   }
 
+  // Connects again with the current username, re-ranking the servers first
+  reconnect() {
+    if (!this.username) return Promise.resolve(false);
+
+    this.setStatus("reconnecting");
+    return this.connect(this.username).then((connected) => {
+      if (!connected) this.setStatus("offline");
+      return connected;
+    });
+  }
+
   disconnect() {
     if (this.socket) {
       this.socket.disconnect();
       this.socket = null;
       this.username = null;
     }
+    // Logging out gives up the seat, so there is nothing left to resume
+    this.sessionToken = null;
+    sessionStorage.removeItem(SESSION_KEY);
+    this.setStatus("offline");
+  }
+
+  // Ask the server for the room held by our session. Listeners get the full state to
+  // restore, or learn that the seat is gone.
+  private resumeSession() {
+    new Promise<ResumeAck>((resolve, reject) => {
+      this.socket?.emit("resume_session", this.validatedAck("resume_session", resumeAckSchema, resolve, reject));
+    })
+      .catch((error): ResumeAck => ({ success: false, error: String(error) }))
+      .then((response) => {
+        this.resumeListeners.forEach((listener) => listener(response));
+        this.setStatus("connected");
+      });
+  }
+
+  private setStatus(status: ConnectionStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
   }
 
   // Room actions
-  createRoom(roomName: string, isPrivate: boolean) {
+  createRoom(roomName: string, isPrivate: boolean, options: RoomOptions) {
     if (!this.socket) return Promise.reject("Not connected");
+    // The opponent and bot difficulty only mean something offline
+    const { mode, boardSize, winLength, rated, timeControl, bestOf } = options;
     
-    return new Promise((resolve) => {
-      this.socket?.emit("create_room", { roomName, isPrivate }, resolve);
+    return new Promise<RoomAck>((resolve, reject) => {
+      this.socket?.emit("create_room", { roomName, isPrivate, mode, boardSize, winLength, rated, timeControl, bestOf }, this.validatedAck("create_room", roomAckSchema, resolve, reject));
     });
   }
 
   joinRoom(roomId: string) {
     if (!this.socket) return Promise.reject("Not connected");
     
-    return new Promise((resolve, reject) => {
-      this.socket?.emit("join_room", roomId, (response: { success: boolean, error?: string }) => {
+    return new Promise<RoomAck>((resolve, reject) => {
+      this.socket?.emit("join_room", roomId, this.validatedAck("join_room", roomAckSchema, (response) => {
         if (response.success) {
           resolve(response);
         } else {
@@ -174,7 +261,26 @@ class SocketService {
           });
           reject(response.error);
         }
-      });
+      }, reject));
+    });
+  }
+
+  watchRoom(roomId: string) {
+    if (!this.socket) return Promise.reject("Not connected");
+
+    return new Promise<RoomAck>((resolve, reject) => {
+      this.socket?.emit("watch_room", roomId, this.validatedAck("watch_room", roomAckSchema, (response) => {
+        if (response.success) {
+          resolve(response);
+        } else {
+          toast({
+            title: "Failed to watch room",
+            description: response.error || "Room not found",
+            variant: "destructive",
+          });
+          reject(response.error);
+        }
+      }, reject));
     });
   }
 
@@ -186,15 +292,16 @@ class SocketService {
   joinRandomGame() {
     if (!this.socket) return Promise.reject("Not connected");
     
-    return new Promise((resolve) => {
-      this.socket?.emit("join_random", resolve);
+    return new Promise<RoomAck>((resolve, reject) => {
+      this.socket?.emit("join_random", this.validatedAck("join_random", roomAckSchema, resolve, reject));
     });
   }
 
   // Game actions
-  makeMove(index: number) {
+  // Classic moves are a cell index, Ultimate moves a { board, cell } pair
+  makeMove(move: Move) {
     if (!this.socket) return;
-    this.socket.emit("move", index);
+    this.socket.emit("move", move);
   }
 
   restartGame() {
@@ -202,48 +309,129 @@ class SocketService {
     this.socket.emit("restart_game");
   }
 
+  resign() {
+    if (!this.socket) return;
+    this.socket.emit("resign");
+  }
+
+  propose(kind: ProposalKind) {
+    if (!this.socket) return;
+    this.socket.emit("propose", kind);
+  }
+
+  answerProposal(accept: boolean) {
+    if (!this.socket) return;
+    this.socket.emit("answer_proposal", accept);
+  }
+
   // Chat actions
   sendMessage(message: string) {
     if (!this.socket || !this.username) return;
     this.socket.emit("send_message", { text: message, sender: this.username });
   }
 
-  // Event listeners
-  onGameState(callback: (gameState: GameState) => void) {
+  // Profile actions
+  setAchievements(achievements: string[]) {
     if (!this.socket) return;
-    this.socket.on("game_state", callback);
-    return () => this.socket?.off("game_state", callback);
+    this.socket.emit("set_achievements", achievements);
   }
 
-  onRoomList(callback: (rooms: Room[]) => void) {
-    if (!this.socket) return;
-    this.socket.on("room_list", callback);
-    return () => this.socket?.off("room_list", callback);
+  // Event listeners
+  onGameState(callback: ServerToClientEvents["game_state"]) {
+    return this.subscribe("game_state", callback);
   }
 
-  onMessage(callback: (message: Message) => void) {
-    if (!this.socket) return;
-    this.socket.on("new_message", callback);
-    return () => this.socket?.off("new_message", callback);
+  onRoomList(callback: ServerToClientEvents["room_list"]) {
+    return this.subscribe("room_list", callback);
   }
 
-  onPlayerJoined(callback: (username: string) => void) {
-    if (!this.socket) return;
-    this.socket.on("player_joined", callback);
-    return () => this.socket?.off("player_joined", callback);
+  onMessage(callback: ServerToClientEvents["new_message"]) {
+    return this.subscribe("new_message", callback);
   }
 
-  onPlayerLeft(callback: (username: string) => void) {
-    if (!this.socket) return;
-    this.socket.on("player_left", callback);
-    return () => this.socket?.off("player_left", callback);
+  onPlayerJoined(callback: ServerToClientEvents["player_joined"]) {
+    return this.subscribe("player_joined", callback);
+  }
+
+  onPlayerLeft(callback: ServerToClientEvents["player_left"]) {
+    return this.subscribe("player_left", callback);
+  }
+
+  onStatusChange(callback: (status: ConnectionStatus) => void) {
+    this.statusListeners.add(callback);
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
+  // Called after every reconnect that presented a session, once the server has answered
+  onResume(callback: (response: ResumeAck) => void) {
+    this.resumeListeners.add(callback);
+    return () => {
+      this.resumeListeners.delete(callback);
+    };
+  }
+
+  private subscribe<E extends ServerEvent>(event: E, callback: ServerToClientEvents[E]) {
+    const schema = serverEventSchemas[event] as ZodType<Parameters<ServerToClientEvents[E]>[0], ZodTypeDef, unknown>;
+    const listener: UntypedListener = (payload: unknown) => {
+      const result = schema.safeParse(payload);
+      if (!result.success) {
+        diagnostics.reportRejected(event, payload, describeIssues(result.error));
+        return;
+      }
+      (callback as (data: typeof result.data) => void)(result.data);
+    };
+
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    (this.socket as Socket | null)?.on(event as string, listener);
+
+    return () => {
+      listeners.delete(listener);
+      (this.socket as Socket | null)?.off(event as string, listener);
+    };
+  }
+
+  private attachListeners(socket: GameSocket) {
+    this.listeners.forEach((listeners, event) => {
+      listeners.forEach((listener) => (socket as Socket).on(event as string, listener));
+    });
+  }
+
+  // Wrap an ack callback so only responses matching the schema resolve the request
+  private validatedAck<T>(
+    event: string,
+    schema: ZodType<T, ZodTypeDef, unknown>,
+    resolve: (value: T) => void,
+    reject: (reason: string) => void,
+  ) {
+    return (response: unknown) => {
+      const result = schema.safeParse(response);
+      if (result.success) {
+        resolve(result.data);
+      } else {
+        diagnostics.reportRejected(`${event} response`, response, describeIssues(result.error));
+        reject("Invalid response from server");
+      }
+    };
   }
 
   getRoomList() {
     if (!this.socket) return Promise.reject("Not connected");
     
-    return new Promise((resolve) => {
-      this.socket?.emit("get_rooms", resolve);
+    return new Promise<Room[]>((resolve, reject) => {
+      this.socket?.emit("get_rooms", this.validatedAck("get_rooms", roomListSchema, resolve, reject));
+    });
+  }
+
+  // Only game servers keep ratings, so this is not part of GameTransport
+  getLeaderboard(query: LeaderboardQuery) {
+    if (!this.socket) return Promise.reject("Not connected");
+
+    return new Promise<LeaderboardPage>((resolve, reject) => {
+      this.socket?.emit("get_leaderboard", query, this.validatedAck("get_leaderboard", leaderboardPageSchema, resolve, reject));
     });
   }
 
@@ -251,9 +439,17 @@ class SocketService {
     return this.socket?.connected || false;
   }
 
+  get connectionStatus() {
+    return this.status;
+  }
+
   get currentUsername() {
     return this.username;
   }
+
+  get serverUrl() {
+    return this.isConnected ? this.candidates[this.currentServerIndex] ?? null : null;
+  }
 }
 
 // Create a singleton instance
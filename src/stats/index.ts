@@ -0,0 +1,113 @@
+import { format } from "date-fns";
+import { Mark } from "@/engine";
+import { formatSquare } from "@/notation";
+import type { MatchRecord, MatchResult } from "@/services/matchHistory";
+
+// Figures for the statistics page, all derived from the local match history
+
+export type ResultCounts = Record<MatchResult, number>;
+
+export interface WinRatePoint {
+  // yyyy-MM-dd
+  day: string;
+  games: number;
+  // Wins over all games up to and including this day, as a percentage
+  winRate: number;
+}
+
+export interface OpeningCount {
+  // e.g. "b2 (3×3)" or "e5 (ultimate)"; squares only compare on the same kind of board
+  opening: string;
+  games: number;
+  // Share of these games won by whoever played the opening, as a percentage
+  winRate: number;
+}
+
+export interface OpponentRecord extends ResultCounts {
+  opponent: string;
+  games: number;
+}
+
+export interface PlayerStats {
+  games: number;
+  results: ResultCounts;
+  byMark: Record<Mark, ResultCounts>;
+  winRateOverTime: WinRatePoint[];
+  // In moves and milliseconds, null without games
+  averageMoves: number | null;
+  averageDuration: number | null;
+  openings: OpeningCount[];
+  opponents: OpponentRecord[];
+}
+
+const noResults = (): ResultCounts => ({ win: 0, loss: 0, draw: 0 });
+
+export const winRateOf = ({ win, loss, draw }: ResultCounts) => {
+  const games = win + loss + draw;
+  return games === 0 ? 0 : Math.round((win / games) * 100);
+};
+
+const average = (values: number[]) =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const boardLabel = (match: MatchRecord) =>
+  match.mode === "ultimate" ? "ultimate" : `${match.boardSize}×${match.boardSize}`;
+
+export const computeStats = (matches: MatchRecord[]): PlayerStats => {
+  const results = noResults();
+  const byMark: Record<Mark, ResultCounts> = { X: noResults(), O: noResults() };
+  const days = new Map<string, ResultCounts>();
+  const openings = new Map<string, { games: number; won: number }>();
+  const opponents = new Map<string, ResultCounts>();
+
+  // Oldest first, so the running win rate builds up in order
+  const chronological = [...matches].sort((a, b) => a.endedAt - b.endedAt);
+
+  for (const match of chronological) {
+    results[match.result]++;
+    byMark[match.mark][match.result]++;
+
+    const day = format(match.endedAt, "yyyy-MM-dd");
+    const dayResults = days.get(day) ?? noResults();
+    dayResults[match.result]++;
+    days.set(day, dayResults);
+
+    const [first] = match.moves;
+    if (first) {
+      const opening = `${formatSquare(first.move, { mode: match.mode, boardSize: match.boardSize ?? 3 })} (${boardLabel(match)})`;
+      const count = openings.get(opening) ?? { games: 0, won: 0 };
+      count.games++;
+      const openerWon = match.result === "draw" ? false : (match.result === "win") === (match.mark === first.mark);
+      if (openerWon) count.won++;
+      openings.set(opening, count);
+    }
+
+    const opponent = match.opponent ?? "Nobody";
+    const opponentResults = opponents.get(opponent) ?? noResults();
+    opponentResults[match.result]++;
+    opponents.set(opponent, opponentResults);
+  }
+
+  const running = noResults();
+  const winRateOverTime = [...days.entries()].map(([day, dayResults]) => {
+    running.win += dayResults.win;
+    running.loss += dayResults.loss;
+    running.draw += dayResults.draw;
+    return { day, games: dayResults.win + dayResults.loss + dayResults.draw, winRate: winRateOf(running) };
+  });
+
+  return {
+    games: matches.length,
+    results,
+    byMark,
+    winRateOverTime,
+    averageMoves: average(matches.map((match) => match.moves.length)),
+    averageDuration: average(matches.map((match) => match.endedAt - match.startedAt)),
+    openings: [...openings.entries()]
+      .map(([opening, { games, won }]) => ({ opening, games, winRate: Math.round((won / games) * 100) }))
+      .sort((a, b) => b.games - a.games),
+    opponents: [...opponents.entries()]
+      .map(([opponent, counts]) => ({ opponent, games: counts.win + counts.loss + counts.draw, ...counts }))
+      .sort((a, b) => b.games - a.games),
+  };
+};
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Comma separated game server URLs; see src/services/serverConfig.ts
+  readonly VITE_GAME_SERVERS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}